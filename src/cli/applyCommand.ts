@@ -0,0 +1,134 @@
+import * as path from "path";
+import { Command } from "commander";
+import pc from "picocolors";
+import { applyAgentResult, changePaths, findStalePaths, formatGitPatch } from "../fileEngine/index.js";
+import { loadProjectConfig, loadPathPolicy } from "../loaders/loadProjectConfig.js";
+import { isGitRepository, findDirtyPaths } from "./git.js";
+import { resolveChangeLimits, createLimitConfirmation, warnAboutLimits } from "./changeLimits.js";
+import { printApplySummary, printProposedChanges } from "./runCommand.js";
+import {
+  startCliRun,
+  completeCliRun,
+  failCliRun,
+  findLatestProposalRun,
+  readProposal,
+  requireRunWithArtifacts,
+  saveRunPatch,
+  recordSecretFindings,
+  snapshotDirFor,
+  trashDirFor,
+} from "./runRecords.js";
+
+export function buildApplyCommand(commandName = "apply"): Command {
+  return new Command(commandName)
+    .description("Write the changes proposed by an earlier run, without calling the model again")
+    .option("--run <runId>", "Run whose proposal to apply")
+    .option("--last", "Apply the proposal of the most recent run")
+    .option("-r, --root <path>", "Project root to write into (default: the run's root)")
+    .option("--dry-run", "Show the changes without writing them")
+    .option("-f, --force", "Overwrite files that changed since the proposal instead of merging")
+    .option("--transactional", "Roll back all changes if any file operation fails")
+    .option("--allow-dirty", "Write files even if they have uncommitted git changes")
+    .option("--allow-large-changes", "Write even if the proposal exceeds the change limits")
+    .action(async (opts) => {
+      try {
+        if (!opts.run && !opts.last) {
+          throw new Error("Provide --run <runId> or --last");
+        }
+
+        const runId: string | undefined = opts.run ?? (await findLatestProposalRun())?.id;
+        if (!runId) {
+          throw new Error("No run with a saved proposal found");
+        }
+
+        const run = await requireRunWithArtifacts(runId);
+        const saved = await readProposal(run);
+        if (!saved) {
+          throw new Error(`Run ${runId} has no saved proposal (chat runs and runs from older versions cannot be applied)`);
+        }
+
+        const { proposal, result } = saved;
+        const rootDir = opts.root ? path.resolve(opts.root) : proposal.rootDir;
+        const writeMode = !opts.dryRun;
+
+        console.log(`Applying proposal from run ${runId} (task ${proposal.task.id})`);
+        console.log(`Root directory: ${rootDir}`);
+        console.log(`Write mode: ${writeMode ? "enabled" : "disabled (dry-run)"}`);
+        console.log("");
+
+        const projectConfig = await loadProjectConfig(rootDir);
+        const pathPolicy = await loadPathPolicy(rootDir, projectConfig);
+        const limits = resolveChangeLimits(projectConfig.limits, proposal.limits);
+        const targets = result.files.flatMap((change) => changePaths(change));
+
+        const stale = await findStalePaths(targets, rootDir, proposal.baseline);
+        if (stale.length > 0) {
+          console.log(pc.yellow(`Changed since the proposal was made: ${stale.join(", ")}`));
+          console.log(
+            opts.force
+              ? "Overwriting them (--force)."
+              : "The proposal will be merged into them; files that cannot be merged are reported as conflicts."
+          );
+          console.log("");
+        }
+
+        if (writeMode && !opts.allowDirty && (await isGitRepository(rootDir))) {
+          const dirty = await findDirtyPaths(rootDir, targets);
+          if (dirty.length > 0) {
+            throw new Error(
+              `Uncommitted changes in files the proposal writes: ${dirty.join(", ")}\n` +
+                "Commit or stash them first, or re-run with --allow-dirty."
+            );
+          }
+        }
+
+        const cliRun = await startCliRun(
+          { id: proposal.task.id, objective: proposal.task.objective, contextFiles: proposal.task.contextFiles },
+          { parentRunId: runId }
+        );
+
+        let summary;
+        try {
+          summary = await applyAgentResult(result, {
+            rootDir,
+            dryRun: !writeMode,
+            transactional: opts.transactional,
+            snapshotDir: cliRun ? snapshotDirFor(cliRun.artifactsDir) : undefined,
+            trashDir: cliRun ? trashDirFor(cliRun.artifactsDir) : undefined,
+            baseline: proposal.baseline,
+            force: opts.force,
+            pathPolicy,
+            writeScope: proposal.writeScope,
+            limits,
+            confirmLimits: createLimitConfirmation(opts.allowLargeChanges),
+            validation: proposal.validation ?? "warn",
+            secretScan: projectConfig.secrets?.mode ?? "warn",
+            secretAllowlist: projectConfig.secrets?.allow,
+          });
+        } catch (error) {
+          await failCliRun(cliRun, error);
+          throw error;
+        }
+        await recordSecretFindings(cliRun, summary.operations);
+        await completeCliRun(cliRun);
+        await saveRunPatch(cliRun, await formatGitPatch(summary.operations, rootDir));
+
+        printApplySummary(summary, proposal.writeScope);
+        if (summary.dryRun) {
+          warnAboutLimits(summary.operations, limits);
+        }
+
+        if (summary.operations.length === 0) {
+          console.log("The proposal has no file operations.");
+        } else if (summary.dryRun) {
+          printProposedChanges(summary.operations);
+          console.log("Re-run without --dry-run to apply these changes.");
+        } else if (cliRun && !summary.rollback) {
+          console.log(`Run ID: ${cliRun.id} (revert with: fluid-agent undo --run ${cliRun.id})`);
+        }
+      } catch (error) {
+        console.error(`Error applying run: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
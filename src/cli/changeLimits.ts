@@ -0,0 +1,62 @@
+import pc from "picocolors";
+import { checkChangeLimits, describeLimitViolation } from "../fileEngine/index.js";
+import type { ChangeLimits, ChangeLimitViolation, FileOperationResult, LimitConfirmation } from "../fileEngine/index.js";
+import { confirmInTerminal } from "./interactiveReview.js";
+import type { InteractiveReviewer } from "./interactiveReview.js";
+
+const CONFIRM_QUESTION = "Apply these changes anyway? [y/N] ";
+
+/**
+ * Effective limits for a run: the project config's, overridden per key by the
+ * task's. Undefined when neither sets any.
+ */
+export function resolveChangeLimits(
+  configLimits: ChangeLimits | undefined,
+  taskLimits: ChangeLimits | undefined
+): ChangeLimits | undefined {
+  const limits = { ...configLimits, ...taskLimits };
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+/**
+ * Decide what happens when a write exceeds its limits: go ahead with
+ * --allow-large-changes, otherwise ask on the terminal, or abort without one.
+ */
+export function createLimitConfirmation(
+  allowLargeChanges: boolean | undefined,
+  reviewer?: InteractiveReviewer
+): LimitConfirmation {
+  return async (violations) => {
+    printLimitViolations(violations);
+
+    if (allowLargeChanges) {
+      console.log("Continuing because of --allow-large-changes.");
+      return true;
+    }
+    if (!process.stdin.isTTY) {
+      console.log("Re-run with --allow-large-changes to apply them anyway.");
+      return false;
+    }
+    return reviewer ? reviewer.confirm(CONFIRM_QUESTION) : confirmInTerminal(CONFIRM_QUESTION);
+  };
+}
+
+/**
+ * Dry-run counterpart: point out proposals that a write run would stop on.
+ */
+export function warnAboutLimits(operations: FileOperationResult[], limits: ChangeLimits | undefined): void {
+  if (!limits) return;
+  const violations = checkChangeLimits(operations, limits);
+  if (violations.length === 0) return;
+
+  printLimitViolations(violations);
+  console.log("A write run will ask for confirmation first (or pass --allow-large-changes).");
+}
+
+function printLimitViolations(violations: ChangeLimitViolation[]): void {
+  console.log("");
+  console.log(pc.yellow("=== CHANGE LIMITS EXCEEDED ==="));
+  for (const violation of violations) {
+    console.log(`  ${describeLimitViolation(violation)}`);
+  }
+}
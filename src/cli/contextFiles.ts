@@ -0,0 +1,33 @@
+import { captureBaseline, isGlobPattern, matchesGlob, normalizeRelativePath } from "../fileEngine/index.js";
+
+export interface TextContextFiles {
+  /** The context patterns, with binary files taken out. */
+  contextFiles: string[];
+
+  /** Project-relative paths of the binary files that were left out. */
+  binary: string[];
+}
+
+/**
+ * Leave binary files (images, fonts, archives...) out of a task's context so their
+ * bytes are not pasted into the prompt. Literal paths to binary files are dropped;
+ * a glob that matches any is replaced by the text files it matches.
+ */
+export async function excludeBinaryContextFiles(rootDir: string, contextFiles: string[]): Promise<TextContextFiles> {
+  const baseline = await captureBaseline(rootDir, contextFiles);
+  const files = Object.keys(baseline).filter((p) => baseline[p].hash !== null);
+  // Baselines keep the text of every file except binary ones
+  const binary = files.filter((p) => baseline[p].content === undefined);
+  if (binary.length === 0) return { contextFiles, binary };
+
+  const kept = contextFiles.flatMap((pattern) => {
+    if (!isGlobPattern(pattern)) {
+      return binary.includes(normalizeRelativePath(pattern)) ? [] : [pattern];
+    }
+    const glob = normalizeRelativePath(pattern);
+    if (!binary.some((p) => matchesGlob(p, glob))) return [pattern];
+    return files.filter((p) => matchesGlob(p, glob) && !binary.includes(p));
+  });
+
+  return { contextFiles: [...new Set(kept)], binary: binary.sort() };
+}
@@ -0,0 +1,90 @@
+import type { RuntimeTask } from "@digital-fluid/fluid-agent";
+import { changePaths } from "../fileEngine/index.js";
+import type { FileOperationResult } from "../fileEngine/index.js";
+import type { CliRun, CliRunLink } from "./runRecords.js";
+import { verificationPassed } from "./verify.js";
+import type { VerificationResult } from "./verify.js";
+
+/** Upper bound on the diff text sent back to the model in one fix attempt. */
+const MAX_DIFF_CHARS = 20_000;
+
+/** Statuses whose changes ended up on disk and are worth showing the model again. */
+const LANDED_STATUSES = ["created", "updated", "deleted", "moved", "merged", "merged-with-conflicts"];
+
+export function parseFixAttempts(value: string | undefined): number {
+  if (value === undefined) return 0;
+  const attempts = Number(value);
+  if (!Number.isInteger(attempts) || attempts < 0) {
+    throw new Error(`--fix-attempts must be a non-negative integer, got "${value}"`);
+  }
+  return attempts;
+}
+
+/**
+ * How the run of fix attempt `attempt` (0 for the first run) links to the run of the
+ * attempt before it. The first run has no link; it is attempt 1.
+ */
+export function fixAttemptLink(previousRun: CliRun | undefined, attempt: number): CliRunLink | undefined {
+  return previousRun ? { previousRunId: previousRun.id, attemptNumber: attempt + 1 } : undefined;
+}
+
+/**
+ * Follow-up task for `--fix-attempts`: the original objective, what the previous
+ * attempt changed and the output of the failing verification commands. The files
+ * it wrote are added to the context so the model sees their current contents.
+ */
+export function buildFixTask(
+  task: RuntimeTask,
+  attempt: number,
+  maxAttempts: number,
+  operations: FileOperationResult[],
+  verification: VerificationResult[]
+): RuntimeTask {
+  const landed = operations.filter((op) => LANDED_STATUSES.includes(op.status));
+  const failures = verification.filter((result) => !verificationPassed(result));
+
+  const sections = [
+    task.objective.trim(),
+    `## Fix attempt ${attempt} of ${maxAttempts}`,
+    "Your previous changes were applied, but these verification commands failed:",
+    ...failures.map(describeFailure),
+    "## Changes already applied",
+    describeChanges(landed),
+    "Make the changes needed so every verification command passes. Keep the intent of the original objective; " +
+      "the files you changed are included in the context with their current contents.",
+  ];
+
+  return {
+    ...task,
+    objective: sections.join("\n\n"),
+    contextFiles: [...new Set([...(task.contextFiles ?? []), ...currentPaths(landed)])],
+  };
+}
+
+function describeFailure(result: VerificationResult): string {
+  const reason = result.timedOut ? "timed out" : result.exitCode === null ? "killed" : `exit code ${result.exitCode}`;
+  return `### \`${result.command}\` (${reason})\n\n\`\`\`\n${result.outputTail || "(no output)"}\n\`\`\``;
+}
+
+function describeChanges(operations: FileOperationResult[]): string {
+  if (operations.length === 0) return "(none)";
+
+  let budget = MAX_DIFF_CHARS;
+  return operations
+    .map((op) => {
+      const header = `- ${op.status}: ${changePaths(op.change).join(" -> ")}`;
+      if (!op.diff || budget <= 0) return header;
+
+      const diff = op.diff.length > budget ? `${op.diff.slice(0, budget)}\n... (diff truncated)` : op.diff;
+      budget -= diff.length;
+      return `${header}\n\n\`\`\`diff\n${diff.trimEnd()}\n\`\`\``;
+    })
+    .join("\n\n");
+}
+
+/** Paths that exist after the operations ran (targets of moves, nothing that was deleted). */
+function currentPaths(operations: FileOperationResult[]): string[] {
+  return operations
+    .filter((op) => op.status !== "deleted")
+    .map((op) => changePaths(op.change).at(-1) ?? op.change.path);
+}
@@ -199,6 +199,18 @@ export function formatRunDetails(run: TaskLogEntry): void {
   console.log(pc.dim("━".repeat(60)));
 }
 
+/**
+ * Format a chain of linked runs (fix attempts), marking the current one
+ */
+export function formatRunChain(chain: TaskLogEntry[], currentId: string): void {
+  console.log(pc.bold("\nRun Chain:"));
+  chain.forEach((run, index) => {
+    const marker = run.id === currentId ? pc.cyan("▶") : " ";
+    const label = index === 0 ? "initial run" : `fix attempt ${index}`;
+    console.log(`${marker} ${run.id}  ${colorizeStatus(run.status)}  ${pc.dim(label)}  ${formatTimestamp(run.createdAt)}`);
+  });
+}
+
 /**
  * Colorize log level
  */
@@ -246,3 +258,31 @@ export function formatLogEvents(events: LogEventEntry[]): void {
     }
   }
 }
+
+/**
+ * Colorize a unified diff for terminal display
+ */
+export function formatDiff(diff: string): string {
+  return diff
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) {
+        return pc.bold(line);
+      }
+      if (line.startsWith("@@")) {
+        return pc.cyan(line);
+      }
+      if (line.startsWith("+")) {
+        return pc.green(line);
+      }
+      if (line.startsWith("-")) {
+        return pc.red(line);
+      }
+      if (line.startsWith("\\")) {
+        return pc.dim(line);
+      }
+      return line;
+    })
+    .join("\n");
+}
@@ -0,0 +1,160 @@
+import { execFile } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/** Longest commit subject line before the objective is cut. */
+const MAX_SUBJECT_LENGTH = 72;
+
+/**
+ * Run git in `rootDir`, with `input` on stdin. Exit codes in `okExitCodes` (besides 0)
+ * are not failures.
+ */
+async function git(
+  rootDir: string,
+  args: string[],
+  options: { input?: string; okExitCodes?: number[] } = {}
+): Promise<string> {
+  const { input, okExitCodes = [] } = options;
+  try {
+    const running = execFileAsync("git", args, { cwd: rootDir, maxBuffer: 16 * 1024 * 1024 });
+    running.child.stdin?.end(input);
+    const { stdout } = await running;
+    return stdout;
+  } catch (error) {
+    const { code, stdout } = error as { code?: unknown; stdout?: string };
+    if (typeof code === "number" && okExitCodes.includes(code)) return stdout ?? "";
+
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (error instanceof Error ? error.message : String(error))}`);
+  }
+}
+
+export async function isGitRepository(rootDir: string): Promise<boolean> {
+  try {
+    return (await git(rootDir, ["rev-parse", "--is-inside-work-tree"])).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check out `branch`, creating it from the current HEAD when it does not exist.
+ * Returns true when the branch was created.
+ */
+export async function checkoutBranch(rootDir: string, branch: string): Promise<boolean> {
+  const exists = await git(rootDir, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]).then(
+    () => true,
+    () => false
+  );
+
+  await git(rootDir, exists ? ["checkout", branch] : ["checkout", "-b", branch]);
+  return !exists;
+}
+
+/**
+ * Those of `relativePaths` (relative to `rootDir`) with uncommitted changes,
+ * including untracked files, as reported by `git status`. The result is relative
+ * to `rootDir` too, also when it is a subdirectory of the repository.
+ */
+export async function findDirtyPaths(rootDir: string, relativePaths: string[]): Promise<string[]> {
+  if (relativePaths.length === 0) return [];
+
+  // git status prints paths relative to the top level, e.g. "pkg/a.txt" for a root in pkg/.
+  const prefix = (await git(rootDir, ["rev-parse", "--show-prefix"])).trim();
+
+  const output = await git(rootDir, [
+    "status",
+    "--porcelain",
+    "-z",
+    "--untracked-files=all",
+    "--",
+    ...relativePaths.map(literalPathspec),
+  ]);
+
+  const dirty: string[] = [];
+  const entries = splitNul(output);
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const repoPath = entry.slice(3);
+    dirty.push(repoPath.startsWith(prefix) ? repoPath.slice(prefix.length) : repoPath);
+    // Renames and copies are followed by their source path.
+    if (entry[0] === "R" || entry[0] === "C") i += 1;
+  }
+  return dirty;
+}
+
+/**
+ * Commit exactly `relativePaths` (additions, edits and deletions), leaving any
+ * other staged or unstaged changes alone. Paths git cannot commit (ignored, or
+ * neither on disk nor tracked) are left out. Returns the new commit hash, or
+ * undefined when the paths had nothing to commit.
+ */
+export async function commitPaths(rootDir: string, relativePaths: string[], message: string): Promise<string | undefined> {
+  const paths = await committablePaths(rootDir, relativePaths);
+  if (paths.length === 0) return undefined;
+
+  const pathspecs = paths.map(literalPathspec);
+  await git(rootDir, ["add", "--all", "--", ...pathspecs]);
+
+  const staged = await git(rootDir, ["diff", "--cached", "--name-only", "--", ...pathspecs]);
+  if (!staged.trim()) return undefined;
+
+  await git(rootDir, ["commit", "--quiet", "-m", message, "--", ...pathspecs]);
+  return (await git(rootDir, ["rev-parse", "HEAD"])).trim();
+}
+
+/**
+ * Those of `relativePaths` that `git add` accepts: not ignored by .gitignore, and
+ * either on disk or tracked (a tracked file that is gone commits as a deletion).
+ */
+async function committablePaths(rootDir: string, relativePaths: string[]): Promise<string[]> {
+  if (relativePaths.length === 0) return [];
+
+  // check-ignore exits with 1 when no path is ignored; tracked files are never reported.
+  const ignored = new Set(
+    splitNul(
+      await git(rootDir, ["check-ignore", "-z", "--stdin"], {
+        input: relativePaths.map((relativePath) => `${relativePath}\0`).join(""),
+        okExitCodes: [1],
+      })
+    )
+  );
+  const tracked = new Set(splitNul(await git(rootDir, ["ls-files", "-z", "--", ...relativePaths.map(literalPathspec)])));
+
+  const committable: string[] = [];
+  for (const relativePath of relativePaths) {
+    if (ignored.has(relativePath)) continue;
+    const onDisk = await fs.lstat(path.join(rootDir, relativePath)).then(
+      () => true,
+      () => false
+    );
+    if (onDisk || tracked.has(relativePath)) committable.push(relativePath);
+  }
+  return committable;
+}
+
+function splitNul(output: string): string[] {
+  return output.split("\0").filter(Boolean);
+}
+
+/**
+ * Commit message for a task: "<id>: <first line of the objective>", with the full
+ * objective in the body when it does not fit the subject.
+ */
+export function buildCommitMessage(taskId: string, objective: string): string {
+  const text = objective.trim().replace(/\s+\n/g, "\n");
+  const firstLine = text.split("\n")[0].trim();
+  const fullSubject = `${taskId}: ${firstLine}`;
+  const truncated = fullSubject.length > MAX_SUBJECT_LENGTH;
+  const subject = truncated ? `${fullSubject.slice(0, MAX_SUBJECT_LENGTH - 3).trimEnd()}...` : fullSubject;
+
+  return truncated || text !== firstLine ? `${subject}\n\n${text}` : subject;
+}
+
+/** Match a path literally (no glob expansion), relative to the working directory. */
+function literalPathspec(relativePath: string): string {
+  return `:(literal)${relativePath}`;
+}
@@ -4,6 +4,12 @@ import { Command } from 'commander';
 import { runCommand } from './runCommand.js';
 import { CLIOptions } from '../types/cliTypes.js';
 import { buildLogsCommand } from './logs.js';
+import { buildUndoCommand } from './undoCommand.js';
+import { buildApplyCommand } from './applyCommand.js';
+import { buildTrashCommand } from './trashCommand.js';
+
+/** Subcommands (other than the default `run`) that npm may have swallowed. */
+const SUBCOMMANDS = ['logs', 'undo', 'apply', 'trash'];
 
 function recoverNpmArgs(): string[] {
   const raw = process.env.npm_config_argv;
@@ -15,14 +21,14 @@ function recoverNpmArgs(): string[] {
     for (const arr of sources) {
       const idxStart = arr.findIndex((v) => v === 'start');
       const idxRun = arr.findIndex((v) => v === 'run');
-      const idxLogs = arr.findIndex((v) => v === 'logs');
+      const idxSubcommand = arr.findIndex((v) => SUBCOMMANDS.includes(v));
       const sliceFrom =
         idxStart >= 0
           ? idxStart + 1
           : idxRun >= 0
           ? idxRun + 1
-          : idxLogs >= 0
-          ? idxLogs
+          : idxSubcommand >= 0
+          ? idxSubcommand
           : 1;
       const recovered = arr.slice(sliceFrom).filter((arg) => arg !== '--');
       if (recovered.length) return recovered;
@@ -57,21 +63,40 @@ const run = new Command('run')
   .option('-m, --model <name>', 'Override model')
   .option('-p, --prompt [text]', 'Run an ad-hoc prompt instead of a task file')
   .option('--chat', 'Run prompt in chat mode (no edits, conversational)', false)
+  .option('--transactional', 'Apply all file changes or none (roll back on failure)', false)
+  .option('--force', 'Write files even if they changed on disk since the task started', false)
+  .option('-i, --interactive', 'Review each file change and accept, reject or edit it (implies --write)', false)
+  .option('--git-branch <name>', 'Create or check out this git branch before running (write mode)')
+  .option('--git-commit', 'Commit the files written by the run (write mode)', false)
+  .option('--allow-dirty', 'Write files even if they have uncommitted git changes', false)
+  .option('--verify-timeout <seconds>', 'Time limit for each verification command (default: 300)')
+  .option('--no-verify', 'Skip the verification commands after a write run')
+  .option('--allow-large-changes', 'Write even if the changes exceed the configured limits', false)
+  .option('--output-patch <file>', 'Write the proposed changes to <file> as a git-style patch')
+  .option('--fix-attempts <n>', 'When verification fails, ask the agent to fix it up to n times (default: 0)')
+  .option('--staged', 'Apply and verify in a scratch copy first; write the real root only if verification passes', false)
   .action(async (taskOrPrompt: string | undefined, options: CLIOptions) => {
     await runCommand(taskOrPrompt, options);
   });
 
 program.addCommand(run, { isDefault: true });
 program.addCommand(buildLogsCommand());
+program.addCommand(buildUndoCommand());
+program.addCommand(buildApplyCommand());
+program.addCommand(buildTrashCommand());
 
 program.addHelpText(
   'after',
   `
 Examples:
   fluid-agent run task.yaml --write
+  fluid-agent run task.yaml --write --git-branch agent/task --git-commit
   fluid-agent -p "Summarize the codebase" --chat
   fluid-agent run --yaml task.without.yaml.ext --write
   fluid-agent logs list --task my-task --status completed --json
+  fluid-agent apply --last
+  fluid-agent undo --last
+  fluid-agent trash restore --run <id> src/old.ts
 
 Run options:
   -r, --root <path>     Project root directory (default: cwd)
@@ -82,13 +107,36 @@ Run options:
   -m, --model <name>    Override model
   -p, --prompt [text]   Run an ad-hoc prompt instead of a task file
   --chat                Chat-only mode for --prompt (no edits)
+  --transactional       Apply all changes or none (roll back on failure)
+  --force               Overwrite files that changed on disk during the run
+  -i, --interactive     Approve, reject or edit each change before it is written
+  --git-branch <name>   Create or check out a branch before a write run
+  --git-commit          Commit the files the run wrote
+  --allow-dirty         Write files that have uncommitted git changes
+  --verify-timeout <s>  Time limit per verification command (default: 300)
+  --no-verify           Skip verification commands after a write run
+  --fix-attempts <n>    Feed verification failures back to the agent up to n times
+  --staged              Verify in a scratch copy before writing the real root
+  --output-patch <file> Save the proposed changes as a patch for git apply
+  --allow-large-changes Write changes that exceed the task/project limits
 
 Logs quick reference:
   list    --task <id> [--type ... --status ... --origin ... --stage ... --after ... --before ... --limit ... --json]
   latest  same filters as list (default limit 1)
   show    --run <id> [--events] [--events-limit <n>] [--json]
   events  --run <id> [--level warn,error --source runtime,cli --since <iso> --limit <n> --json]
-  get     --run <id> [--artifacts] [--log-events --log-level ... --trace-summary]
+  get     --run <id> [--artifacts] [--log-events --log-level ... --trace-summary] [--patch]
+
+Apply a saved proposal:
+  apply   --run <id> | --last [--root <path>] [--dry-run] [--force] [--transactional] [--allow-dirty] [--allow-large-changes]
+
+Undo:
+  undo    --run <id> | --last [--root <path>] [--force]
+
+Trash (files deleted by write runs):
+  list    [--run <id>] [--json]
+  restore --run <id> [paths...] [--root <path>] [--force]
+  empty   --run <id> | --all
 
 Use: fluid-agent run --help   or   fluid-agent logs --help   for full details.
 `
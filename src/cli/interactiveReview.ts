@@ -0,0 +1,166 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { spawnSync } from "node:child_process";
+import { createInterface } from "node:readline/promises";
+import pc from "picocolors";
+import { changePaths } from "../fileEngine/index.js";
+import type { FileOperationResult, ReviewCallback, ReviewDecision } from "../fileEngine/index.js";
+import { formatDiff } from "./formatting.js";
+
+export interface InteractiveReviewer {
+  review: ReviewCallback;
+
+  /** Ask a yes/no question on the reviewer's terminal; anything but y/yes is no. */
+  confirm(question: string): Promise<boolean>;
+
+  close(): void;
+}
+
+const PROMPT = "[a]ccept, [r]eject, [v]iew, [e]dit, accept [A]ll, [q]uit? ";
+
+/** Throw unless answers can be read from a terminal; check before any model call. */
+export function assertInteractiveTerminal(): void {
+  if (!process.stdin.isTTY) {
+    throw new Error("--interactive needs a terminal (stdin is not a TTY)");
+  }
+}
+
+/**
+ * Terminal reviewer for `run --interactive`: shows each staged operation and asks
+ * whether to write it. "accept all" and "quit" answer every remaining operation.
+ */
+export function createInteractiveReviewer(): InteractiveReviewer {
+  assertInteractiveTerminal();
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  let remaining: ReviewDecision | undefined;
+
+  const review: ReviewCallback = async (operation) => {
+    if (remaining) return remaining;
+
+    printOperation(operation);
+
+    for (;;) {
+      const answer = (await rl.question(PROMPT)).trim();
+
+      switch (answer) {
+        case "a":
+        case "y":
+          return "accept";
+        case "r":
+        case "n":
+          return "reject";
+        case "A":
+          remaining = "accept";
+          return "accept";
+        case "q":
+          remaining = "reject";
+          return "reject";
+        case "v":
+          printContent(operation);
+          break;
+        case "e": {
+          if (operation.proposedContent === undefined) {
+            console.log(pc.yellow("Nothing to edit for a delete."));
+            break;
+          }
+          rl.pause();
+          const edited = await editInEditor(operation);
+          rl.resume();
+          if (edited !== undefined) {
+            return { content: edited };
+          }
+          break;
+        }
+        default:
+          console.log(pc.yellow(`Unknown choice "${answer}".`));
+      }
+    }
+  };
+
+  const confirm = async (question: string) => isYes(await rl.question(question));
+
+  return { review, confirm, close: () => rl.close() };
+}
+
+/**
+ * Ask a yes/no question on the terminal; anything but y/yes is no.
+ */
+export async function confirmInTerminal(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return isYes(await rl.question(question));
+  } finally {
+    rl.close();
+  }
+}
+
+function isYes(answer: string): boolean {
+  return ["y", "yes"].includes(answer.trim().toLowerCase());
+}
+
+function describe(operation: FileOperationResult): string {
+  const { change } = operation;
+  if (change.action === "rename" || change.action === "move") {
+    const [from, to] = changePaths(change);
+    return `${from} -> ${to}`;
+  }
+  return change.path;
+}
+
+function printOperation(operation: FileOperationResult): void {
+  console.log("");
+  console.log(
+    pc.bold(`${operation.change.action.toUpperCase()}: ${describe(operation)}`) +
+      ` (+${operation.linesAdded ?? 0} -${operation.linesRemoved ?? 0})`
+  );
+  if ((operation.warnings || (operation.status !== "created" && operation.status !== "updated")) && operation.message) {
+    console.log(pc.dim(operation.message));
+  }
+  if (operation.diff) {
+    console.log(formatDiff(operation.diff));
+  }
+}
+
+function printContent(operation: FileOperationResult): void {
+  console.log("");
+  if (operation.proposedContent === undefined) {
+    console.log(pc.dim("(file will be deleted)"));
+  } else {
+    console.log(operation.proposedContent);
+  }
+  console.log("");
+}
+
+/**
+ * Open the proposed content in $VISUAL/$EDITOR; returns the saved text, or
+ * undefined when the editor failed.
+ */
+export async function editInEditor(operation: FileOperationResult): Promise<string | undefined> {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  const target = changePaths(operation.change).at(-1) ?? operation.change.path;
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "fluid-agent-edit-"));
+  const file = path.join(dir, editorFileName(target));
+
+  try {
+    await fs.writeFile(file, operation.proposedContent ?? "", "utf8");
+    // The editor string may carry arguments (e.g. "code --wait"), so let the shell split it.
+    const result = spawnSync(`${editor} "${file}"`, { stdio: "inherit", shell: true });
+    if (result.status !== 0) {
+      console.log(pc.red(`Editor exited with status ${result.status ?? result.signal}; keeping the proposal.`));
+      return undefined;
+    }
+    return await fs.readFile(file, "utf8");
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Name of the temp file handed to the editor. The path comes from the agent and ends
+ * up in a shell command, so only its extension is kept (for syntax highlighting).
+ */
+export function editorFileName(target: string): string {
+  return `proposal${path.extname(target).replace(/[^\w.]/g, "")}`;
+}
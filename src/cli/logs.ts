@@ -2,7 +2,8 @@
 
 import { Command } from "commander";
 import { logging } from "@digital-fluid/fluid-agent";
-import { formatRunsTable, formatRunDetails, formatLogEvents } from "./formatting.js";
+import { formatRunsTable, formatRunDetails, formatLogEvents, formatRunChain } from "./formatting.js";
+import { findRunChain, readRunPatch } from "./runRecords.js";
 
 const { queryRuns, getRunById, getRunWithArtifacts, getRunLogEvents, getRunTraceSummary } = logging;
 type TaskRunType = logging.TaskRunType;
@@ -145,6 +146,10 @@ export function buildLogsCommand(commandName = "logs"): Command {
 
         if (opts.json) {
           const payload: Record<string, unknown> = { ...run };
+          const chain = await findRunChain(run);
+          if (chain.length > 1) {
+            payload.chain = chain.map((entry) => entry.id);
+          }
           if (opts.events && run.logEventsFile) {
             payload.events = await getRunLogEvents(opts.run, { limit: opts.eventsLimit ?? 10 });
           }
@@ -154,6 +159,11 @@ export function buildLogsCommand(commandName = "logs"): Command {
 
         formatRunDetails(run);
 
+        const chain = await findRunChain(run);
+        if (chain.length > 1) {
+          formatRunChain(chain, run.id);
+        }
+
         if (opts.events && run.logEventsFile) {
           const events = await getRunLogEvents(opts.run, { limit: opts.eventsLimit ?? 10 });
           if (events.length > 0) {
@@ -284,8 +294,22 @@ program
     .option("--log-limit <n>", "Limit number of log events", parsePositiveInt)
     .option("--log-offset <n>", "Skip the first N log events", parseNonNegativeInt)
     .option("--trace-summary", "Include runtime trace summary when available")
+    .option("--patch", "Print the run's file changes as a git-style patch instead of JSON")
     .action(async (opts) => {
       try {
+        if (opts.patch) {
+          const run = await getRunById(opts.run);
+          if (!run) {
+            throw new Error(`Run not found: ${opts.run}`);
+          }
+          const patch = await readRunPatch(run);
+          if (patch === undefined) {
+            throw new Error(`Run ${opts.run} has no saved patch`);
+          }
+          process.stdout.write(patch);
+          return;
+        }
+
         const includeArtifacts = Boolean(opts.artifacts || opts.logEvents);
 
         if (!includeArtifacts) {
@@ -1,7 +1,48 @@
+import * as fs from 'fs/promises';
 import * as path from 'path';
 import { runTask, RuntimeTask, RunTaskResult, llm as agentLLM, buildPromptTask } from '@digital-fluid/fluid-agent';
-import { applyAgentResult } from '../fileEngine/index.js';
-import { loadTask } from '../loaders/loadTask.js';
+import {
+  applyAgentResult,
+  captureBaseline,
+  changePaths,
+  formatGitPatch,
+  isGlobPattern,
+  normalizeRelativePath,
+  writtenPaths,
+} from '../fileEngine/index.js';
+import type {
+  ApplyAgentResultSummary,
+  ChangeLimits,
+  ContentValidationMode,
+  FileBaseline,
+  FileChange,
+  FileChangeSet,
+  FileOperationResult,
+  PathPolicy,
+} from '../fileEngine/index.js';
+import { formatDiff } from './formatting.js';
+import { assertInteractiveTerminal, createInteractiveReviewer } from './interactiveReview.js';
+import { runVerification, printVerification, verificationPassed, DEFAULT_VERIFY_TIMEOUT_MS } from './verify.js';
+import type { VerificationResult } from './verify.js';
+import { buildFixTask, fixAttemptLink, parseFixAttempts } from './fixAttempts.js';
+import { resolveChangeLimits, createLimitConfirmation, warnAboutLimits } from './changeLimits.js';
+import { createStagingCopy, promotableChanges } from './staging.js';
+import { excludeBinaryContextFiles } from './contextFiles.js';
+import type { StagingCopy } from './staging.js';
+import { isGitRepository, checkoutBranch, findDirtyPaths, commitPaths, buildCommitMessage } from './git.js';
+import {
+  startCliRun,
+  completeCliRun,
+  failCliRun,
+  saveProposal,
+  saveRunPatch,
+  recordSecretFindings,
+  snapshotDirFor,
+  trashDirFor,
+} from './runRecords.js';
+import type { CliRun } from './runRecords.js';
+import { loadTask, resolveWriteScope } from '../loaders/loadTask.js';
+import { loadProjectConfig, loadPathPolicy } from '../loaders/loadProjectConfig.js';
 import { CLIOptions } from '../types/cliTypes.js';
 
 export async function runCommand(taskOrPrompt: string | undefined, options: CLIOptions): Promise<void> {
@@ -45,6 +86,10 @@ export async function runCommand(taskOrPrompt: string | undefined, options: CLIO
     }
 
     let task: RuntimeTask;
+    let writeScope: string[] | undefined;
+    let taskVerify: string[] = [];
+    let taskLimits: ChangeLimits | undefined;
+    let validation: ContentValidationMode = 'warn';
 
     if (effectivePrompt) {
       task = buildPromptTask(effectivePrompt, options.chat ? 'chat' : 'execution');
@@ -54,6 +99,10 @@ export async function runCommand(taskOrPrompt: string | undefined, options: CLIO
         console.log(`Loading task from: ${taskFile}`);
         const loaded = await loadTask(taskFile, { forceYaml: options.yaml });
         task = loaded.task;
+        writeScope = resolveWriteScope(loaded.task);
+        taskVerify = loaded.task.verify ?? [];
+        taskLimits = loaded.task.limits;
+        validation = loaded.task.validation ?? validation;
       } catch (error) {
         const isNotFound = error instanceof Error && error.message.includes('Task file not found');
 
@@ -75,16 +124,48 @@ export async function runCommand(taskOrPrompt: string | undefined, options: CLIO
     
     // Set up runtime options
     const rootDir = options.root ? path.resolve(options.root) : process.cwd();
-    const writeMode = Boolean(options.write || options.yes);
+    const writeMode = Boolean(options.write || options.yes || options.interactive || options.staged);
     const showTrace = options.trace !== false; // default true unless --no-trace
     
     console.log(`Root directory: ${rootDir}`);
-    console.log(`Write mode: ${writeMode ? 'enabled' : 'disabled (dry-run)'}`);
+    console.log(`Write mode: ${describeWriteMode(writeMode, options)}`);
     console.log(`Trace output: ${showTrace ? 'enabled' : 'disabled'}`);
     console.log('');
+
+    // Read the project config up front so a broken config fails before the model call
+    const projectConfig = await loadProjectConfig(rootDir);
+    const pathPolicy = await loadPathPolicy(rootDir, projectConfig);
+    const verifyCommands = options.verify === false ? [] : [...new Set([...(projectConfig.verify ?? []), ...taskVerify])];
+    const verifyTimeoutMs = parseVerifyTimeout(options.verifyTimeout);
+    const changeLimits = resolveChangeLimits(projectConfig.limits, taskLimits);
+    let fixAttempts = parseFixAttempts(options.fixAttempts);
+    if (fixAttempts > 0 && !writeMode) {
+      console.log('--fix-attempts is ignored in dry-run mode.');
+      fixAttempts = 0;
+    } else if (fixAttempts > 0 && verifyCommands.length === 0) {
+      throw new Error('--fix-attempts needs verification commands ("verify" in the task file or project config)');
+    }
+    if (options.staged && verifyCommands.length === 0) {
+      throw new Error('--staged needs verification commands ("verify" in the task file or project config)');
+    }
+    if (options.interactive) {
+      assertInteractiveTerminal();
+    }
+
+    const inGitRepo = await isGitRepository(rootDir);
+    const useGit = Boolean(options.gitBranch || options.gitCommit);
+    if (useGit && !writeMode) {
+      console.log('Git: --git-branch/--git-commit are ignored in dry-run mode.');
+    } else if (useGit && !inGitRepo) {
+      throw new Error(`--git-branch/--git-commit need a git repository, but ${rootDir} is not inside one`);
+    } else if (options.gitBranch) {
+      // Switch before the agent reads any context so it works on the branch's files
+      const created = await checkoutBranch(rootDir, options.gitBranch);
+      console.log(`Git: ${created ? 'created and checked out' : 'checked out'} branch ${options.gitBranch}`);
+    }
     
     // Assemble RuntimeTask
-    const runtimeTask: RuntimeTask = {
+    const runtimeTask: RuntimeTask = await withoutBinaryContext(rootDir, {
       id: task.id,
       objective: task.objective,
       contextFiles: task.contextFiles,
@@ -94,7 +175,7 @@ export async function runCommand(taskOrPrompt: string | undefined, options: CLIO
       systemPrompt: task.systemPrompt,
       agentInstructions: task.agentInstructions,
       taskType: task.taskType,
-    };
+    });
     
     // Prepare logger to capture runtime messages (the runtime returns structured trace in result)
     const logger = (msg: string) => {
@@ -109,7 +190,9 @@ export async function runCommand(taskOrPrompt: string | undefined, options: CLIO
     
     // Acquire default LLM client and run the task
     const llmClient = agentLLM.getDefaultLLMClient();
-    const result: RunTaskResult = await runTask(llmClient, runtimeTask, { rootDir, logger });
+    // Hash context files as the agent is about to read them, to catch edits made while it works
+    const baseline = await captureBaseline(rootDir, runtimeTask.contextFiles ?? []);
+    let result: RunTaskResult = await runTask(llmClient, runtimeTask, { rootDir, logger });
 
     const isChatMode = runtimeTask.taskType === 'chat' || (result as any).mode === 'chat';
 
@@ -123,29 +206,198 @@ export async function runCommand(taskOrPrompt: string | undefined, options: CLIO
 
     // Apply file changes when the task produced execution output
     if (result.mode === 'execution') {
-      console.log('=== APPLYING FILE CHANGES ===');
+      const reviewer = options.interactive ? createInteractiveReviewer() : undefined;
+      const confirmLimits = createLimitConfirmation(options.allowLargeChanges, reviewer);
+      // Paths written by earlier attempts of this run are expected to be dirty
+      const sessionPaths = new Set<string>();
+      // One patch section per attempt; git apply replays them in order
+      const patches: string[] = [];
+      // With --staged every attempt is applied and verified in a scratch copy, then replayed here
+      const staging: StagingCopy | undefined = options.staged ? await createStagingCopy(rootDir) : undefined;
+      const applyRoot = staging?.dir ?? rootDir;
+      const stagedAttempts: StagedAttempt[] = [];
+      let execution = result.result;
+      let attemptTask = runtimeTask;
+      let attemptBaseline = baseline;
+      let previousRun: CliRun | undefined;
+      let previousOperations: FileOperationResult[] = [];
+      let verification: VerificationResult[] = [];
+      let conflictMarkers = false;
+      let rolledBack = false;
+      let attempt = 0;
+
+      if (staging) {
+        console.log(`Staging copy: ${staging.dir}`);
+        console.log('');
+      }
 
-      const applySummary = await applyAgentResult(result.result, {
-        rootDir,
-        dryRun: !writeMode,
-        logger,
-      });
+      try {
+        for (;;) {
+          if (attempt > 0) {
+            console.log(`=== FIX ATTEMPT ${attempt} OF ${fixAttempts} ===`);
+            console.log('');
+            attemptTask = await withoutBinaryContext(
+              applyRoot,
+              buildFixTask(runtimeTask, attempt, fixAttempts, previousOperations, verification)
+            );
+            attemptBaseline = await captureBaseline(applyRoot, attemptTask.contextFiles ?? []);
+            result = await runTask(llmClient, attemptTask, { rootDir: applyRoot, logger });
+            if (result.mode !== 'execution') break;
+            execution = result.result;
+          }
+
+          console.log('=== APPLYING FILE CHANGES ===');
+
+          if (writeMode && inGitRepo && !options.allowDirty) {
+            const targets = execution.files.flatMap((change) => changePaths(change));
+            const dirty = (await findDirtyPaths(rootDir, targets)).filter((p) => !sessionPaths.has(p));
+            if (dirty.length > 0) {
+              throw new Error(
+                `Uncommitted changes in files the agent wants to write: ${dirty.join(', ')}\n` +
+                  'Commit or stash them first, or re-run with --allow-dirty.'
+              );
+            }
+          }
+
+          const cliRun = await startCliRun(attemptTask, fixAttemptLink(previousRun, attempt));
+          await saveProposal(cliRun, execution, {
+            task: { id: attemptTask.id, objective: attemptTask.objective, contextFiles: attemptTask.contextFiles },
+            rootDir,
+            writeScope,
+            limits: changeLimits,
+            validation,
+            baseline: await proposalBaseline(rootDir, execution, attemptBaseline),
+          });
+
+          // What the staged targets look like before this attempt, to detect edits made before promotion
+          const stagedBaseline = staging ? await proposalBaseline(applyRoot, execution, {}) : undefined;
+
+          let applySummary;
+          try {
+            applySummary = await applyAgentResult(execution, {
+              rootDir: applyRoot,
+              dryRun: !writeMode,
+              logger,
+              transactional: options.transactional,
+              snapshotDir: cliRun && !staging ? snapshotDirFor(cliRun.artifactsDir) : undefined,
+              trashDir: cliRun && !staging ? trashDirFor(cliRun.artifactsDir) : undefined,
+              baseline: attemptBaseline,
+              force: options.force,
+              pathPolicy,
+              writeScope,
+              review: reviewer?.review,
+              limits: changeLimits,
+              confirmLimits,
+              validation,
+              secretScan: projectConfig.secrets?.mode ?? 'warn',
+              secretAllowlist: projectConfig.secrets?.allow,
+            });
+          } catch (error) {
+            await failCliRun(cliRun, error);
+            throw error;
+          }
+          await recordSecretFindings(cliRun, applySummary.operations);
+          await completeCliRun(cliRun);
+
+          const { counts, dryRun, operations, rollback } = applySummary;
+          const patch = await formatGitPatch(operations, applyRoot);
+          await saveRunPatch(cliRun, patch);
+          patches.push(patch);
+
+          printApplySummary(applySummary, writeScope);
+          if (dryRun) {
+            warnAboutLimits(operations, changeLimits);
+          }
+          conflictMarkers ||= counts['merged-with-conflicts'] > 0;
+          rolledBack = Boolean(rollback);
+
+          writtenPaths(applySummary).forEach((p) => sessionPaths.add(p));
+          if (stagedBaseline && !rollback) {
+            stagedAttempts.push({ cliRun, changes: promotableChanges(operations), baseline: stagedBaseline });
+          }
+
+          verification = [];
+          if (writeMode && !rollback && verifyCommands.length > 0) {
+            verification = await runVerification(applyRoot, verifyCommands, {
+              timeoutMs: verifyTimeoutMs,
+              onStart: (command) => logger(`VERIFY: ${command}`),
+            });
+            printVerification(verification, verifyTimeoutMs);
+          }
+
+          if (operations.length === 0) {
+            console.log('No file operations returned by the agent.');
+          } else if (dryRun) {
+            printProposedChanges(operations);
+            console.log('Re-run with --write to apply these changes.');
+          } else if (staging) {
+            console.log('Applied in the staging copy; your working copy is only changed if verification passes.');
+          } else if (cliRun && !rollback) {
+            console.log(`Run ID: ${cliRun.id} (revert with: fluid-agent undo --run ${cliRun.id})`);
+          } else if (!cliRun) {
+            console.log('Undo unavailable: this run could not be recorded.');
+          }
+
+          console.log('');
+
+          if (rollback || verification.every(verificationPassed) || attempt >= fixAttempts) break;
+
+          previousRun = cliRun;
+          previousOperations = operations;
+          attempt += 1;
+        }
+      } finally {
+        reviewer?.close();
+        await staging?.dispose();
+      }
 
-      const { counts, dryRun, operations } = applySummary;
-      const modeLabel = dryRun ? 'DRY-RUN (no files written)' : 'WRITE MODE (changes applied)';
+      if (options.outputPatch) {
+        const patchPath = path.resolve(options.outputPatch);
+        await fs.writeFile(patchPath, patches.join(''), 'utf8');
+        console.log(`Patch written to ${patchPath}`);
+      }
 
-      console.log(`Mode: ${modeLabel}`);
-      console.log(
-        `File operations — created: ${counts.created}, updated: ${counts.updated}, deleted: ${counts.deleted}, skipped: ${counts.skipped}`
-      );
+      const verified = verification.every(verificationPassed);
+      if (!verified) {
+        process.exitCode = 1;
+      }
+      if (attempt > 0) {
+        console.log(
+          verified
+            ? `Verification passed after ${attempt} fix attempt(s).`
+            : `Verification still failing after ${attempt} fix attempt(s).`
+        );
+        console.log('');
+      }
 
-      if (operations.length === 0) {
-        console.log('No file operations returned by the agent.');
-      } else if (dryRun) {
-        console.log('Re-run with --write to apply these changes.');
+      if (staging && !rolledBack) {
+        if (verified) {
+          const promoted = await promoteStagedAttempts(stagedAttempts, {
+            rootDir,
+            logger,
+            transactional: options.transactional,
+            force: options.force,
+            pathPolicy,
+            writeScope,
+          });
+          sessionPaths.clear();
+          promoted.writtenPaths.forEach((p) => sessionPaths.add(p));
+          rolledBack = promoted.rolledBack;
+        } else {
+          console.log('Staged changes were not promoted because verification failed; your working copy is unchanged.');
+          console.log('');
+        }
       }
 
-      console.log('');
+      if (options.gitCommit && writeMode && !rolledBack) {
+        if (!verified) {
+          console.log('Git: not committing because verification failed.');
+        } else if (conflictMarkers) {
+          console.log('Git: not committing because some files contain conflict markers.');
+        } else {
+          await commitRunChanges(rootDir, [...sessionPaths], task);
+        }
+      }
     }
     
     console.log('');
@@ -198,6 +450,239 @@ export async function runCommand(taskOrPrompt: string | undefined, options: CLIO
   }
 }
 
+/** Statuses always shown in the counts line, even when zero. */
+const BASE_STATUSES = ['created', 'updated', 'deleted', 'skipped'];
+
+/** Statuses for operations carried out as requested. */
+const APPLIED_STATUSES = [...BASE_STATUSES, 'moved', 'merged'];
+
+/** Statuses reported in their own section rather than in the attention list. */
+const SECTION_STATUSES = ['out-of-scope'];
+
+/**
+ * Report the outcome of applyAgentResult: mode, counts, operations needing attention,
+ * scope violations and rollback. Sets a failing exit code where the run failed.
+ */
+export function printApplySummary(summary: ApplyAgentResultSummary, writeScope: string[] | undefined): void {
+  const { counts, dryRun, operations, rollback } = summary;
+  const modeLabel = dryRun ? 'DRY-RUN (no files written)' : 'WRITE MODE (changes applied)';
+
+  console.log(`Mode: ${modeLabel}`);
+  console.log(`File operations — ${formatCounts(counts)}`);
+  printAttentionOperations(operations);
+  printScopeViolations(operations, writeScope);
+
+  if (counts.conflict > 0) {
+    console.log('Some files changed on disk since the agent read them. Re-run, or pass --force to overwrite them.');
+  }
+  if (counts['merged-with-conflicts'] > 0) {
+    console.log('Some merges left conflict markers (<<<<<<< current / >>>>>>> agent); resolve them before committing.');
+  }
+  if (counts['secret-detected'] > 0) {
+    console.log(
+      'Files with possible secrets were not written. If they are not real, allow them under "secrets.allow" in the project config.'
+    );
+  }
+
+  if (counts.failed > 0) {
+    console.error(`${counts.failed} file operation(s) failed; the other changes were still processed.`);
+    process.exitCode = 1;
+  }
+
+  if (rollback) {
+    console.error(`Rollback: ${rollback.restored.length} file(s) restored after failure: ${rollback.reason}`);
+    process.exitCode = 1;
+  }
+}
+
+function formatCounts(counts: ApplyAgentResultSummary['counts']): string {
+  return Object.entries(counts)
+    .filter(([status, count]) => BASE_STATUSES.includes(status) || count > 0)
+    .map(([status, count]) => `${status}: ${count}`)
+    .join(', ');
+}
+
+/**
+ * List operations the engine did not carry out as requested (patch failures etc.)
+ */
+function printAttentionOperations(operations: FileOperationResult[]): void {
+  const flagged = operations.filter(
+    (op) => !APPLIED_STATUSES.includes(op.status) && !SECTION_STATUSES.includes(op.status)
+  );
+  for (const op of flagged) {
+    console.log(`${op.status.toUpperCase()}: ${describeTarget(op)}${op.message ? ` — ${op.message}` : ''}`);
+  }
+  for (const op of operations.filter((op) => op.warnings)) {
+    console.log(`WARNING (${op.warnings!.join(', ')}): ${describeTarget(op)}${op.message ? ` — ${op.message}` : ''}`);
+  }
+}
+
+/**
+ * Commit the files written by this run, including its fix attempts (--git-commit).
+ */
+async function commitRunChanges(rootDir: string, paths: string[], task: RuntimeTask): Promise<void> {
+  const commit = await commitPaths(rootDir, paths, buildCommitMessage(task.id, task.objective));
+  console.log(commit ? `Git: committed ${paths.length} file(s) as ${commit.slice(0, 7)}` : 'Git: nothing to commit.');
+}
+
+/**
+ * List changes the agent made outside the task's writeScope; these fail the run.
+ */
+function printScopeViolations(operations: FileOperationResult[], writeScope: string[] | undefined): void {
+  const violations = operations.filter((op) => op.status === 'out-of-scope');
+  if (!writeScope || violations.length === 0) return;
+
+  console.log('');
+  console.log('=== SCOPE VIOLATIONS ===');
+  console.log(`Allowed by writeScope: ${writeScope.join(', ')}`);
+  for (const op of violations) {
+    console.log(`${op.change.action.toUpperCase()}: ${describeTarget(op)} (not written)`);
+  }
+  console.log('');
+
+  process.exitCode = 1;
+}
+
+function describeTarget(op: FileOperationResult): string {
+  if (op.status === 'moved' || op.change.action === 'rename' || op.change.action === 'move') {
+    const [from, to] = changePaths(op.change);
+    return `${from} -> ${to}`;
+  }
+  return op.change.path;
+}
+
+/**
+ * Print the per-file diffs computed by the file engine (dry-run review)
+ */
+export function printProposedChanges(operations: FileOperationResult[]): void {
+  console.log('');
+  console.log('=== PROPOSED CHANGES ===');
+
+  for (const op of operations) {
+    if (!op.diff && op.status !== 'moved') continue;
+    console.log('');
+    console.log(`${op.change.action.toUpperCase()}: ${describeTarget(op)} (+${op.linesAdded ?? 0} -${op.linesRemoved ?? 0})`);
+    if (op.diff) {
+      console.log(formatDiff(op.diff));
+    }
+  }
+
+  console.log('');
+}
+
+/** One attempt of a --staged run, waiting to be replayed in the real root. */
+export interface StagedAttempt {
+  cliRun: CliRun | undefined;
+  changes: FileChange[];
+
+  /** The staging copy's targets before the attempt ran (the real root's, unless edited since). */
+  baseline: Record<string, FileBaseline>;
+}
+
+export interface PromoteOptions {
+  rootDir: string;
+  logger: (message: string) => void;
+  transactional?: boolean;
+  force?: boolean;
+  pathPolicy: PathPolicy;
+  writeScope: string[] | undefined;
+}
+
+/**
+ * Replay the changes verified in the staging copy in the real root, attempt by
+ * attempt, with the snapshots of each attempt's run so it can be undone. Files
+ * edited in the root meanwhile are merged or reported as conflicts as usual.
+ */
+export async function promoteStagedAttempts(
+  attempts: StagedAttempt[],
+  options: PromoteOptions
+): Promise<{ writtenPaths: string[]; rolledBack: boolean }> {
+  const { rootDir, logger, transactional, force, pathPolicy, writeScope } = options;
+  const promoted = new Set<string>();
+
+  console.log('=== PROMOTING STAGED CHANGES ===');
+
+  for (const { cliRun, changes, baseline } of attempts) {
+    const summary = await applyAgentResult(
+      { files: changes },
+      {
+        rootDir,
+        logger,
+        transactional,
+        snapshotDir: cliRun ? snapshotDirFor(cliRun.artifactsDir) : undefined,
+        trashDir: cliRun ? trashDirFor(cliRun.artifactsDir) : undefined,
+        baseline,
+        force,
+        pathPolicy,
+        writeScope,
+      }
+    );
+
+    printApplySummary(summary, writeScope);
+    writtenPaths(summary).forEach((p) => promoted.add(p));
+    if (cliRun && !summary.rollback) {
+      console.log(`Run ID: ${cliRun.id} (revert with: fluid-agent undo --run ${cliRun.id})`);
+    }
+    console.log('');
+
+    if (summary.rollback) {
+      return { writtenPaths: [...promoted], rolledBack: true };
+    }
+  }
+
+  return { writtenPaths: [...promoted], rolledBack: false };
+}
+
+/**
+ * The baseline saved with a proposal: the task's baseline plus the current state of
+ * targets the agent did not read, so `apply` can tell whether any of them changed.
+ */
+async function proposalBaseline(
+  rootDir: string,
+  execution: FileChangeSet,
+  baseline: Record<string, FileBaseline>
+): Promise<Record<string, FileBaseline>> {
+  const extra: Record<string, FileBaseline> = {};
+  const targets = execution.files.flatMap((change) => changePaths(change).map(normalizeRelativePath));
+
+  for (const target of targets) {
+    if (baseline[target] || isGlobPattern(target)) continue;
+    try {
+      Object.assign(extra, await captureBaseline(rootDir, [target]));
+    } catch {
+      // Paths outside the root are rejected (and reported) by the file engine.
+    }
+  }
+
+  return { ...extra, ...baseline };
+}
+
+/**
+ * The task with binary files left out of its context (they would reach the prompt as garbage).
+ */
+async function withoutBinaryContext(rootDir: string, task: RuntimeTask): Promise<RuntimeTask> {
+  const { contextFiles, binary } = await excludeBinaryContextFiles(rootDir, task.contextFiles ?? []);
+  if (binary.length === 0) return task;
+
+  console.log(`Context: leaving out binary file(s): ${binary.join(', ')}`);
+  return { ...task, contextFiles };
+}
+
+function describeWriteMode(writeMode: boolean, options: CLIOptions): string {
+  if (!writeMode) return 'disabled (dry-run)';
+  if (options.staged) return 'staged (verified in a scratch copy before writing)';
+  return options.interactive ? 'interactive (approve each file)' : 'enabled';
+}
+
+function parseVerifyTimeout(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_VERIFY_TIMEOUT_MS;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new Error(`--verify-timeout must be a positive number of seconds, got "${value}"`);
+  }
+  return seconds * 1000;
+}
+
 function readNpmConfigFlag(name: string): boolean | undefined {
   const value = process.env[`npm_config_${name}`];
   if (value === undefined) return undefined;
@@ -0,0 +1,302 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { logging } from "@digital-fluid/fluid-agent";
+import type { RuntimeTask } from "@digital-fluid/fluid-agent";
+import { readSnapshotManifest, readTrashManifest } from "../fileEngine/index.js";
+import type {
+  ChangeLimits,
+  ContentValidationMode,
+  FileBaseline,
+  FileChangeSet,
+  FileOperationResult,
+  TrashManifest,
+} from "../fileEngine/index.js";
+
+const {
+  createRun,
+  markRunStarted,
+  markRunCompleted,
+  markRunFailed,
+  prepareArtifactsDir,
+  writeExecutionArtifact,
+  appendLogEvent,
+  hashSpec,
+  hashExecution,
+  queryRuns,
+  getRunById,
+} = logging;
+type TaskLogEntry = logging.TaskLogEntry;
+
+const CLI_VERSION = "1.0.0";
+
+/**
+ * A run recorded by the CLI itself (one per `run` invocation that reaches the file engine).
+ */
+export interface CliRun {
+  id: string;
+  artifactsDir: string;
+
+  /** Set once the agent's result has been saved with saveProposal. */
+  executionPath?: string;
+  executionHash?: string;
+}
+
+const PROPOSAL_FILE = "proposal.json";
+const PATCH_FILE = "changes.patch";
+
+/**
+ * What `fluid-agent apply` needs, besides the agent's result, to write a run's
+ * changes later: where and for which task they were proposed, and the state of
+ * the files at that point (for the staleness check).
+ */
+export interface SavedProposal {
+  task: Pick<RuntimeTask, "id" | "objective" | "contextFiles">;
+  rootDir: string;
+  executionPath: string;
+  writeScope?: string[];
+  limits?: ChangeLimits;
+  validation?: ContentValidationMode;
+  baseline: Record<string, FileBaseline>;
+}
+
+/**
+ * Links a run to the one it follows (a fix attempt) or derives from (`apply`).
+ */
+export interface CliRunLink {
+  previousRunId?: string;
+  parentRunId?: string;
+  attemptNumber?: number;
+}
+
+/**
+ * Record a CLI execution run in the runtime logs.
+ * Returns undefined (after a warning) when the logs store is unavailable, so the
+ * task itself can still proceed.
+ */
+export async function startCliRun(task: RuntimeTask, link?: CliRunLink): Promise<CliRun | undefined> {
+  try {
+    const run = await createRun({
+      taskId: task.id,
+      runType: "execution-run",
+      taskOrigin: "cli",
+      specHash: hashSpec({ objective: task.objective, contextFiles: task.contextFiles }),
+      agentVersion: CLI_VERSION,
+      ...link,
+    });
+    const artifactsDir = await prepareArtifactsDir(run.id, run.createdAt);
+    await markRunStarted(run.id);
+    return { id: run.id, artifactsDir };
+  } catch (error) {
+    console.warn(`Warning: could not record run in logs (${error instanceof Error ? error.message : error}).`);
+    return undefined;
+  }
+}
+
+export async function completeCliRun(run: CliRun | undefined): Promise<void> {
+  if (!run) return;
+  await markRunCompleted(run.id, {
+    artifactsDir: run.artifactsDir,
+    executionPath: run.executionPath,
+    executionHash: run.executionHash,
+  }).catch(() => undefined);
+}
+
+export async function failCliRun(run: CliRun | undefined, error: unknown): Promise<void> {
+  if (!run) return;
+  const message = error instanceof Error ? error.message : String(error);
+  await markRunFailed(run.id, message).catch(() => undefined);
+}
+
+/**
+ * Save the agent's result as the run's execution artifact, with what is needed to
+ * apply it later. Failures only warn: the current run does not depend on them.
+ */
+export async function saveProposal(
+  run: CliRun | undefined,
+  result: FileChangeSet,
+  proposal: Omit<SavedProposal, "executionPath">
+): Promise<void> {
+  if (!run) return;
+  try {
+    const executionPath = await writeExecutionArtifact(run.id, run.artifactsDir, result);
+    const saved: SavedProposal = { ...proposal, executionPath };
+    await fs.writeFile(path.join(run.artifactsDir, PROPOSAL_FILE), JSON.stringify(saved, null, 2), "utf8");
+    run.executionPath = executionPath;
+    run.executionHash = hashExecution(result);
+  } catch (error) {
+    console.warn(`Warning: could not save the agent's result (${error instanceof Error ? error.message : error}).`);
+  }
+}
+
+/**
+ * The proposal saved for `run`, or undefined when the run has none (chat runs, runs
+ * recorded before proposals were saved).
+ */
+export async function readProposal(
+  run: TaskLogEntry
+): Promise<{ proposal: SavedProposal; result: FileChangeSet } | undefined> {
+  if (!run.artifactsDir) return undefined;
+
+  let proposal: SavedProposal;
+  try {
+    proposal = JSON.parse(await fs.readFile(path.join(run.artifactsDir, PROPOSAL_FILE), "utf8")) as SavedProposal;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw new Error(`Proposal for run ${run.id} is unreadable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = JSON.parse(await fs.readFile(proposal.executionPath, "utf8")) as FileChangeSet;
+  if (!Array.isArray(result?.files)) {
+    throw new Error(`Execution artifact for run ${run.id} has no "files" list: ${proposal.executionPath}`);
+  }
+  return { proposal, result };
+}
+
+/**
+ * Record every possible secret the file engine found as a `warn` log event of the
+ * run (source `file-engine`). Only the rule, line and a short preview are logged.
+ */
+export async function recordSecretFindings(run: CliRun | undefined, operations: FileOperationResult[]): Promise<void> {
+  if (!run) return;
+  try {
+    for (const op of operations) {
+      for (const finding of op.secrets ?? []) {
+        await appendLogEvent(run.id, {
+          timestamp: new Date().toISOString(),
+          level: "warn",
+          source: "file-engine",
+          message: `Possible secret in ${op.change.path}: ${finding.rule} on line ${finding.line}`,
+          context: { path: op.change.path, status: op.status, ...finding },
+        });
+      }
+    }
+  } catch (error) {
+    console.warn(`Warning: could not log secret findings (${error instanceof Error ? error.message : error}).`);
+  }
+}
+
+/**
+ * Save the run's file operations as a git-style patch (see formatGitPatch).
+ */
+export async function saveRunPatch(run: CliRun | undefined, patch: string): Promise<void> {
+  if (!run) return;
+  await fs.writeFile(path.join(run.artifactsDir, PATCH_FILE), patch, "utf8").catch((error) => {
+    console.warn(`Warning: could not save the run's patch (${error instanceof Error ? error.message : error}).`);
+  });
+}
+
+/**
+ * The patch saved for a run, or undefined when it has none.
+ */
+export async function readRunPatch(run: TaskLogEntry): Promise<string | undefined> {
+  if (!run.artifactsDir) return undefined;
+  try {
+    return await fs.readFile(path.join(run.artifactsDir, PATCH_FILE), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+/**
+ * Most recent CLI run with a saved proposal.
+ */
+export async function findLatestProposalRun(): Promise<TaskLogEntry | undefined> {
+  const runs = await queryRuns({ runType: "execution-run", taskOrigin: "cli", limit: 50 });
+
+  for (const run of runs) {
+    if (!run.artifactsDir) continue;
+    const exists = await fs.access(path.join(run.artifactsDir, PROPOSAL_FILE)).then(
+      () => true,
+      () => false
+    );
+    if (exists) return run;
+  }
+
+  return undefined;
+}
+
+export function snapshotDirFor(artifactsDir: string): string {
+  return path.join(artifactsDir, "snapshots");
+}
+
+export function trashDirFor(artifactsDir: string): string {
+  return path.join(artifactsDir, "trash");
+}
+
+/**
+ * Load a run and make sure it has an artifacts directory.
+ */
+export async function requireRunWithArtifacts(runId: string): Promise<TaskLogEntry & { artifactsDir: string }> {
+  const run = await getRunById(runId);
+  if (!run) {
+    throw new Error(`Run not found: ${runId}`);
+  }
+  if (!run.artifactsDir) {
+    throw new Error(`Run ${runId} has no artifacts directory`);
+  }
+  return run as TaskLogEntry & { artifactsDir: string };
+}
+
+/**
+ * Most recent CLI run whose write-mode snapshot has not been undone yet.
+ */
+export async function findLatestUndoableRun(): Promise<TaskLogEntry | undefined> {
+  const runs = await queryRuns({ runType: "execution-run", taskOrigin: "cli", limit: 50 });
+
+  for (const run of runs) {
+    if (!run.artifactsDir) continue;
+    const manifest = await readSnapshotManifest(snapshotDirFor(run.artifactsDir));
+    if (manifest && !manifest.undoneAt && manifest.entries.length > 0) {
+      return run;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Recent CLI runs, newest first, whose trash still holds files.
+ */
+export async function findRunsWithTrash(): Promise<Array<{ run: TaskLogEntry; manifest: TrashManifest }>> {
+  const runs = await queryRuns({ runType: "execution-run", taskOrigin: "cli", limit: 50 });
+  const found: Array<{ run: TaskLogEntry; manifest: TrashManifest }> = [];
+
+  for (const run of runs) {
+    if (!run.artifactsDir) continue;
+    const manifest = await readTrashManifest(trashDirFor(run.artifactsDir));
+    if (manifest && manifest.entries.length > 0) {
+      found.push({ run, manifest });
+    }
+  }
+
+  return found;
+}
+
+/**
+ * The fix-attempt chain `run` belongs to, oldest first: its predecessors through
+ * `previousRunId`, then the runs that followed it.
+ */
+export async function findRunChain(run: TaskLogEntry): Promise<TaskLogEntry[]> {
+  const chain = [run];
+  const seen = new Set([run.id]);
+
+  for (let previousId = run.previousRunId; previousId && !seen.has(previousId); ) {
+    const previous = await getRunById(previousId);
+    if (!previous) break;
+    chain.unshift(previous);
+    seen.add(previous.id);
+    previousId = previous.previousRunId;
+  }
+
+  const siblings = await queryRuns({ taskId: run.taskId, runType: run.runType, limit: 200 });
+  for (let current = run; ; ) {
+    const next = siblings.find((candidate) => candidate.previousRunId === current.id && !seen.has(candidate.id));
+    if (!next) break;
+    chain.push(next);
+    seen.add(next.id);
+    current = next;
+  }
+
+  return chain;
+}
@@ -0,0 +1,69 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { WRITE_STATUSES } from "../fileEngine/index.js";
+import type { FileChange, FileOperationResult } from "../fileEngine/index.js";
+
+/** Directories left out of the staging copy: git metadata is not needed, dependencies are linked. */
+const SKIPPED_DIRS = new Set([".git"]);
+const LINKED_DIRS = new Set(["node_modules"]);
+
+export interface StagingCopy {
+  /** Root of the scratch copy. */
+  dir: string;
+
+  /** Delete the copy. */
+  dispose(): Promise<void>;
+}
+
+/**
+ * Copy `rootDir` (with its uncommitted changes) into a temp directory for `--staged`.
+ * `.git` is left out and every `node_modules` is symlinked rather than copied, so
+ * build and test commands still find the installed dependencies.
+ */
+export async function createStagingCopy(rootDir: string): Promise<StagingCopy> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "fluid-agent-staged-"));
+  const dispose = () => fs.rm(dir, { recursive: true, force: true });
+  const linked: string[] = [];
+
+  try {
+    await fs.cp(rootDir, dir, {
+      recursive: true,
+      verbatimSymlinks: true,
+      filter: (source) => {
+        const name = path.basename(source);
+        if (source === rootDir) return true;
+        if (LINKED_DIRS.has(name)) {
+          linked.push(path.relative(rootDir, source));
+          return false;
+        }
+        return !SKIPPED_DIRS.has(name);
+      },
+    });
+
+    for (const relativePath of linked) {
+      await fs.symlink(path.join(rootDir, relativePath), path.join(dir, relativePath), "junction");
+    }
+  } catch (error) {
+    await dispose();
+    throw new Error(`Could not create the staging copy of ${rootDir}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return { dir, dispose };
+}
+
+/**
+ * The changes to replay in the real root after a staged apply: exactly what was
+ * written in the staging copy, with patches, edits and merges already resolved to
+ * full content. Operations that wrote nothing (skipped, rejected, conflicts…) are
+ * left out.
+ */
+export function promotableChanges(operations: FileOperationResult[]): FileChange[] {
+  return operations
+    .filter((op) => WRITE_STATUSES.has(op.status))
+    .map((op) =>
+      op.proposedContent === undefined
+        ? op.change
+        : { ...op.change, content: op.proposedContent, patch: undefined, edits: undefined }
+    );
+}
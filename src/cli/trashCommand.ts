@@ -0,0 +1,133 @@
+import { Command } from "commander";
+import pc from "picocolors";
+import { emptyTrash, readTrashManifest, restoreFromTrash } from "../fileEngine/index.js";
+import type { TrashManifest, TrashRestoreSummary } from "../fileEngine/index.js";
+import { formatTimestamp } from "./formatting.js";
+import { findRunsWithTrash, requireRunWithArtifacts, trashDirFor } from "./runRecords.js";
+
+export function buildTrashCommand(commandName = "trash"): Command {
+  const program = new Command(commandName);
+  program.description("List, restore or permanently remove files deleted by write-mode runs");
+
+  program
+    .command("list")
+    .description("List trashed files (of one run, or of every recent run)")
+    .option("--run <runId>", "Only this run")
+    .option("--json", "Output JSON", false)
+    .action(async (opts) => {
+      try {
+        const trashes = opts.run ? [await readRunTrash(opts.run)] : await findRunsWithTrash();
+        const listed = trashes.filter((trash) => trash.manifest && trash.manifest.entries.length > 0);
+
+        if (opts.json) {
+          console.log(
+            JSON.stringify(
+              listed.map(({ run, manifest }) => ({ runId: run.id, ...manifest })),
+              null,
+              2
+            )
+          );
+          return;
+        }
+
+        if (listed.length === 0) {
+          console.log("The trash is empty.");
+          return;
+        }
+
+        for (const { run, manifest } of listed) {
+          printTrash(run.id, manifest!);
+        }
+      } catch (error) {
+        console.error(`Error listing trash: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("restore")
+    .description("Put trashed files back where they were deleted from")
+    .argument("[paths...]", "Project-relative paths to restore (default: all files of the run)")
+    .requiredOption("--run <runId>", "Run whose deleted files to restore")
+    .option("-r, --root <path>", "Project root to restore into (default: the run's root)")
+    .option("-f, --force", "Overwrite files that exist at the original path again")
+    .action(async (paths: string[], opts) => {
+      try {
+        const run = await requireRunWithArtifacts(opts.run);
+        const summary = await restoreFromTrash(trashDirFor(run.artifactsDir), {
+          paths: paths.length > 0 ? paths : undefined,
+          force: opts.force,
+          rootDir: opts.root,
+        });
+
+        printRestoreSummary(run.id, summary);
+
+        if (summary.files.some((file) => file.status !== "restored")) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(`Error restoring from trash: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command("empty")
+    .description("Permanently delete trashed files")
+    .option("--run <runId>", "Empty the trash of this run")
+    .option("--all", "Empty the trash of every recent run")
+    .action(async (opts) => {
+      try {
+        if (!opts.run && !opts.all) {
+          throw new Error("Provide --run <runId> or --all");
+        }
+
+        const runs = opts.run
+          ? [await requireRunWithArtifacts(opts.run)]
+          : (await findRunsWithTrash()).map(({ run }) => run);
+        let removed = 0;
+        for (const run of runs) {
+          removed += (await emptyTrash(trashDirFor(run.artifactsDir!))).length;
+        }
+
+        console.log(`Trash emptied: ${removed} file(s) permanently deleted.`);
+      } catch (error) {
+        console.error(`Error emptying trash: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+
+  return program;
+}
+
+async function readRunTrash(runId: string) {
+  const run = await requireRunWithArtifacts(runId);
+  return { run, manifest: await readTrashManifest(trashDirFor(run.artifactsDir)) };
+}
+
+function printTrash(runId: string, manifest: TrashManifest): void {
+  console.log(`Run: ${runId}`);
+  console.log(`Root directory: ${manifest.rootDir}`);
+  for (const entry of manifest.entries) {
+    console.log(`  ${entry.path} ${pc.dim(`(${entry.size} bytes, deleted ${formatTimestamp(entry.deletedAt)})`)}`);
+  }
+  console.log("");
+}
+
+function printRestoreSummary(runId: string, summary: TrashRestoreSummary): void {
+  console.log(`Run: ${runId}`);
+  console.log(`Root directory: ${summary.rootDir}`);
+
+  for (const file of summary.files) {
+    if (file.status === "restored") {
+      console.log(`  ${pc.green("RESTORED")}: ${file.path}`);
+    } else if (file.status === "exists") {
+      console.error(`  ${pc.yellow("EXISTS")}: ${file.path} (use --force to overwrite it)`);
+    } else {
+      console.error(`  ${pc.red("NOT IN TRASH")}: ${file.path}`);
+    }
+  }
+
+  const restored = summary.files.filter((file) => file.status === "restored").length;
+  console.log(`Restore complete: ${restored} file(s) restored.`);
+}
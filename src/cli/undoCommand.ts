@@ -0,0 +1,69 @@
+import { Command } from "commander";
+import pc from "picocolors";
+import { forgetTrashEntries, restoreSnapshot } from "../fileEngine/index.js";
+import type { UndoSummary } from "../fileEngine/index.js";
+import { findLatestUndoableRun, requireRunWithArtifacts, snapshotDirFor, trashDirFor } from "./runRecords.js";
+
+export function buildUndoCommand(commandName = "undo"): Command {
+  return new Command(commandName)
+    .description("Revert the file changes applied by a write-mode run")
+    .option("--run <runId>", "Run ID to undo")
+    .option("--last", "Undo the most recent write-mode run that has not been undone")
+    .option("-r, --root <path>", "Project root to restore into (default: the run's root)")
+    .option("-f, --force", "Restore even if files were edited after the run")
+    .action(async (opts) => {
+      try {
+        if (!opts.run && !opts.last) {
+          throw new Error("Provide --run <runId> or --last");
+        }
+
+        const runId: string | undefined = opts.run ?? (await findLatestUndoableRun())?.id;
+        if (!runId) {
+          throw new Error("No write-mode run with undoable changes found");
+        }
+
+        const run = await requireRunWithArtifacts(runId);
+        const summary = await restoreSnapshot(snapshotDirFor(run.artifactsDir), {
+          force: opts.force,
+          rootDir: opts.root,
+        });
+
+        printUndoSummary(runId, summary);
+
+        if (summary.refused) {
+          process.exit(1);
+        }
+
+        // Files the run deleted are back; `trash restore` must not bring them back again.
+        const restored = summary.files.filter((file) => file.status === "restored").map((file) => file.path);
+        await forgetTrashEntries(trashDirFor(run.artifactsDir), restored);
+      } catch (error) {
+        console.error(`Error undoing run: ${error instanceof Error ? error.message : error}`);
+        process.exit(1);
+      }
+    });
+}
+
+function printUndoSummary(runId: string, summary: UndoSummary): void {
+  console.log(`Run: ${runId}`);
+  console.log(`Root directory: ${summary.rootDir}`);
+
+  if (summary.refused) {
+    console.error(pc.red("Refusing to undo: files were edited after the run."));
+    for (const file of summary.files) {
+      if (file.status === "modified-since-run") {
+        console.error(`  ${pc.yellow("MODIFIED SINCE RUN")}: ${file.path}`);
+      }
+    }
+    console.error("Re-run with --force to restore anyway (those edits will be lost).");
+    return;
+  }
+
+  for (const file of summary.files) {
+    const label = file.status === "removed" ? pc.red("REMOVED") : pc.green("RESTORED");
+    const warning = summary.modifiedSinceRun.includes(file.path) ? pc.yellow(" (overwrote later edits)") : "";
+    console.log(`  ${label}: ${file.path}${warning}`);
+  }
+
+  console.log(`Undo complete: ${summary.files.length} file(s) restored.`);
+}
@@ -0,0 +1,149 @@
+import { spawn } from "node:child_process";
+import pc from "picocolors";
+
+/** Default per-command limit for verification commands. */
+export const DEFAULT_VERIFY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Lines of combined stdout/stderr kept for each command. */
+const OUTPUT_TAIL_LINES = 30;
+
+/** Grace period between SIGTERM and SIGKILL for a timed-out command. */
+const KILL_GRACE_MS = 5000;
+
+const IS_WINDOWS = process.platform === "win32";
+
+export interface VerificationResult {
+  command: string;
+
+  /** Exit code, or null when the command was killed (timeout or signal). */
+  exitCode: number | null;
+
+  timedOut: boolean;
+  durationMs: number;
+
+  /** Last lines of combined stdout/stderr. */
+  outputTail: string;
+}
+
+export function verificationPassed(result: VerificationResult): boolean {
+  return result.exitCode === 0 && !result.timedOut;
+}
+
+/**
+ * Run each command through the shell in `rootDir`, one after another, and
+ * collect exit codes and output tails. Every command runs even if an earlier
+ * one failed, so the report is complete.
+ */
+export async function runVerification(
+  rootDir: string,
+  commands: string[],
+  options: { timeoutMs?: number; onStart?: (command: string) => void } = {}
+): Promise<VerificationResult[]> {
+  const results: VerificationResult[] = [];
+  for (const command of commands) {
+    options.onStart?.(command);
+    results.push(await runOne(rootDir, command, options.timeoutMs ?? DEFAULT_VERIFY_TIMEOUT_MS));
+  }
+  return results;
+}
+
+function runOne(rootDir: string, command: string, timeoutMs: number): Promise<VerificationResult> {
+  const startedAt = Date.now();
+  const tail = new OutputTail(OUTPUT_TAIL_LINES);
+
+  return new Promise((resolve) => {
+    // Own process group, so a timeout can stop the shell and everything it started.
+    // Windows has no process groups (and would open a console for a detached child).
+    const child = spawn(command, {
+      cwd: rootDir,
+      shell: true,
+      detached: !IS_WINDOWS,
+      windowsHide: true,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const signalGroup = (signal: NodeJS.Signals) => {
+      if (child.pid === undefined) return;
+      if (IS_WINDOWS) {
+        // /T stops the process tree; there is no gentler signal to send first.
+        spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { stdio: "ignore", windowsHide: true }).on(
+          "error",
+          () => child.kill(signal)
+        );
+        return;
+      }
+      try {
+        process.kill(-child.pid, signal);
+      } catch {
+        // Already gone.
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      signalGroup("SIGTERM");
+      killTimer = setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_MS);
+    }, timeoutMs);
+
+    child.stdout.on("data", (chunk: Buffer) => tail.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => tail.push(chunk));
+
+    const finish = (exitCode: number | null, extra?: string) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      if (extra) tail.push(Buffer.from(`\n${extra}\n`));
+      resolve({ command, exitCode, timedOut, durationMs: Date.now() - startedAt, outputTail: tail.toString() });
+    };
+
+    child.on("error", (error) => finish(null, `Failed to start: ${error.message}`));
+    child.on("close", (code) => finish(timedOut ? null : code));
+  });
+}
+
+/** Keeps only the last `maxLines` lines of a stream. */
+class OutputTail {
+  private text = "";
+
+  constructor(private readonly maxLines: number) {}
+
+  push(chunk: Buffer): void {
+    this.text += chunk.toString("utf8");
+    const lines = this.text.split("\n");
+    if (lines.length > this.maxLines * 2) {
+      this.text = lines.slice(-this.maxLines - 1).join("\n");
+    }
+  }
+
+  toString(): string {
+    return this.text.trimEnd().split("\n").slice(-this.maxLines).join("\n");
+  }
+}
+
+export function printVerification(results: VerificationResult[], timeoutMs: number): void {
+  console.log("");
+  console.log("=== VERIFICATION ===");
+
+  for (const result of results) {
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    if (verificationPassed(result)) {
+      console.log(`${pc.green("PASS")} ${result.command} (${seconds}s)`);
+      continue;
+    }
+
+    const reason = result.timedOut
+      ? `timed out after ${Math.round(timeoutMs / 1000)}s`
+      : result.exitCode === null
+      ? "killed"
+      : `exit code ${result.exitCode}`;
+    console.log(`${pc.red("FAIL")} ${result.command} (${reason}, ${seconds}s)`);
+    if (result.outputTail) {
+      console.log(pc.dim(result.outputTail.replace(/^/gm, "  | ")));
+    }
+  }
+
+  const failed = results.filter((result) => !verificationPassed(result)).length;
+  console.log(failed === 0 ? "All verification commands passed." : `${failed} of ${results.length} verification command(s) failed.`);
+  console.log("");
+}
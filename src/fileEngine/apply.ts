@@ -1,25 +1,332 @@
-import type { AgentResult, AgentFileChange } from '@digital-fluid/fluid-agent';
+import * as path from 'node:path';
+import type { AgentResult } from '@digital-fluid/fluid-agent';
 import type {
   ApplyAgentResultOptions,
   ApplyAgentResultSummary,
+  ChangeLimits,
+  ChangeLimitViolation,
+  ContentNotChecked,
+  ContentValidationMode,
+  ContentValidator,
+  FileChange,
+  FileChangeSet,
+  FileBaseline,
+  FileEncoding,
   FileOperationResult,
+  FileOperationStatus,
+  FileOperationWarning,
+  LimitConfirmation,
+  ReviewCallback,
+  SecretAllowlist,
+  SecretFinding,
+  SecretScanMode,
 } from './types.js';
-import { resolveProjectPath, writeFileSafe, deleteFileSafe } from './fileSystem.js';
+import {
+  resolveProjectPathWith,
+  normalizeRelativePath,
+  readFileIfExists,
+  readFileBufferIfExists,
+  writeFileSafe,
+  deleteFileSafe,
+  moveFileSafe,
+} from './fileSystem.js';
+import { nodeFileSystem } from './fileSystemAdapter.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
+import { createBinaryDiff, createUnifiedDiff } from './diff.js';
+import { backupFiles, restoreBackups, removeEmptyDirs } from './transaction.js';
+import { SnapshotRecorder, hashContent } from './snapshots.js';
+import { TrashBin } from './trash.js';
+import { applyUnifiedPatch, applySearchReplace } from './patch.js';
+import { mergeThreeWay } from './merge.js';
+import { FILE_ENCODINGS, conformToExisting, isBinaryContent } from './textFormat.js';
+import { findBlockingRule, isInWriteScope } from './pathPolicy.js';
+import { describeLimitViolation } from './limits.js';
+import { DEFAULT_VALIDATORS, validateContent } from './validators.js';
+import { describeSecretFindings, scanForSecrets } from './secrets.js';
+import { ChangeLimitError, FileSystemOperationError } from './errors.js';
+import type { PathPolicy } from './pathPolicy.js';
+
+/** Statuses whose operation changes the filesystem in write mode. */
+export const WRITE_STATUSES = new Set<FileOperationStatus>([
+  'created',
+  'updated',
+  'deleted',
+  'moved',
+  'merged',
+  'merged-with-conflicts',
+]);
+
+/** Statuses that abort a transactional apply. */
+const FAILURE_STATUSES = new Set<FileOperationStatus>([
+  'patch-failed',
+  'conflict',
+  'blocked',
+  'out-of-scope',
+  'failed',
+  'invalid-content',
+  'secret-detected',
+]);
 
 export async function applyAgentResult(
-  result: AgentResult,
+  result: AgentResult | FileChangeSet,
   options: ApplyAgentResultOptions
 ): Promise<ApplyAgentResultSummary> {
-  const { rootDir, dryRun = false, logger } = options;
+  const {
+    rootDir,
+    dryRun = false,
+    logger,
+    transactional = false,
+    snapshotDir,
+    trashDir,
+    baseline,
+    force = false,
+    pathPolicy,
+    writeScope,
+    review,
+    limits,
+    confirmLimits,
+    fileSystem = nodeFileSystem,
+    validation = 'off',
+    validators,
+    secretScan = 'off',
+    secretAllowlist,
+  } = options;
+  const snapshots = snapshotDir && !dryRun ? new SnapshotRecorder(snapshotDir, rootDir, fileSystem) : undefined;
+  const trash = trashDir && !dryRun ? new TrashBin(trashDir, rootDir, fileSystem) : undefined;
+  const context: ApplySingleChangeOptions = {
+    rootDir,
+    fileSystem,
+    dryRun,
+    logger,
+    snapshots,
+    trash,
+    baseline,
+    force,
+    pathPolicy,
+    writeScope,
+    validation,
+    validators: { ...DEFAULT_VALIDATORS, ...validators },
+    secretScan,
+    secretAllowlist,
+  };
+
+  if (limits && !dryRun) {
+    await enforceChangeLimits(result.files, context, limits, confirmLimits);
+  }
+
+  if (review && !dryRun) {
+    return applyReviewed(result.files, context, review, transactional);
+  }
+
+  return applyChanges(result.files, context, transactional);
+}
+
+async function applyChanges(
+  changes: FileChange[],
+  context: ApplySingleChangeOptions,
+  transactional: boolean
+): Promise<ApplyAgentResultSummary> {
+  const { dryRun, snapshots, trash } = context;
+
+  if (transactional && !dryRun) {
+    return applyTransactional(changes, context);
+  }
+
+  const operations: FileOperationResult[] = [];
+
+  try {
+    for (const change of changes) {
+      operations.push(await applySingleChangeOrFail(change, context));
+    }
+  } finally {
+    // Whatever was written before a failure can still be undone.
+    await snapshots?.save();
+    await trash?.save();
+  }
+
+  return {
+    operations,
+    dryRun,
+    counts: countOperations(operations),
+  };
+}
+
+/**
+ * applySingleChange, reporting a filesystem error as a `failed` operation so the
+ * remaining changes still run and the summary covers every change.
+ */
+async function applySingleChangeOrFail(
+  change: FileChange,
+  context: ApplySingleChangeOptions
+): Promise<FileOperationResult> {
+  try {
+    return await applySingleChange(change, context);
+  } catch (error) {
+    if (!(error instanceof FileSystemOperationError)) throw error;
+    context.logger?.(`FAILED: ${change.path}: ${error.message}`);
+    return { change, status: 'failed', message: error.message };
+  }
+}
+
+/**
+ * Work out what `change` would do without writing anything (limits, review and
+ * transaction staging). Filesystem errors become `failed` operations here too.
+ */
+function stageChange(change: FileChange, context: ApplySingleChangeOptions): Promise<FileOperationResult> {
+  return applySingleChangeOrFail(change, { ...context, dryRun: true, logger: undefined, snapshots: undefined });
+}
+
+/**
+ * Stage every change and make sure the result stays within `limits`; otherwise
+ * throw ChangeLimitError (before anything is written) unless `confirm` approves.
+ */
+async function enforceChangeLimits(
+  changes: FileChange[],
+  context: ApplySingleChangeOptions,
+  limits: ChangeLimits,
+  confirm: LimitConfirmation | undefined
+): Promise<void> {
+  const staged: FileOperationResult[] = [];
+  for (const change of changes) {
+    staged.push(await stageChange(change, context));
+  }
+
+  const violations = checkChangeLimits(staged, limits);
+  if (violations.length === 0) return;
+
+  const description = violations.map(describeLimitViolation).join('; ');
+  if (confirm && (await confirm(violations))) {
+    context.logger?.(`LIMITS: exceeded but confirmed: ${description}`);
+    return;
+  }
+
+  throw new ChangeLimitError(`Change limits exceeded, nothing was written: ${description}`, violations);
+}
+
+/**
+ * Stage every change, ask `review` about each one that would write, then apply
+ * the accepted (possibly edited) changes. Results keep the agent's order.
+ */
+async function applyReviewed(
+  changes: FileChange[],
+  context: ApplySingleChangeOptions,
+  review: ReviewCallback,
+  transactional: boolean
+): Promise<ApplyAgentResultSummary> {
+  const { logger } = context;
+  const accepted: FileChange[] = [];
+  const rejected = new Map<number, FileOperationResult>();
+  const baseline = context.baseline ? { ...context.baseline } : undefined;
+
+  for (const [index, change] of changes.entries()) {
+    const staged = await stageChange(change, context);
+    if (!WRITE_STATUSES.has(staged.status)) {
+      accepted.push(change);
+      continue;
+    }
+
+    const decision = await review(staged);
+    if (decision === 'reject') {
+      logger?.(`REJECT: ${change.path}`);
+      rejected.set(index, { change, status: 'rejected', message: 'Rejected during review.' });
+    } else if (decision === 'accept') {
+      accepted.push(change);
+    } else {
+      // Edited content replaces the agent's; any patch/edits (and merges) were already folded into it.
+      accepted.push({ ...change, content: decision.content, patch: undefined, edits: undefined });
+      for (const relativePath of changePaths(change)) {
+        delete baseline?.[normalizeRelativePath(relativePath)];
+      }
+    }
+  }
+
+  const summary = await applyChanges(accepted, { ...context, baseline }, transactional);
+  const appliedOps = summary.operations[Symbol.iterator]();
+  const operations = changes.map((_, index) => rejected.get(index) ?? appliedOps.next().value!);
+
+  return { ...summary, operations, counts: countOperations(operations) };
+}
+
+/**
+ * All-or-nothing apply: every change is staged (validated and diffed without
+ * touching disk), the original contents of all targets are backed up, and any
+ * failure while writing restores the whole set before returning.
+ */
+async function applyTransactional(
+  changes: FileChange[],
+  options: ApplySingleChangeOptions
+): Promise<ApplyAgentResultSummary> {
+  const { rootDir, fileSystem, logger, snapshots, trash } = options;
+
+  const staged: FileOperationResult[] = [];
+  for (const change of changes) {
+    staged.push(await stageChange(change, options));
+  }
+
+  const stagingFailure = staged.find((op) => FAILURE_STATUSES.has(op.status));
+  if (stagingFailure) {
+    // Nothing has been written yet, so aborting needs no restore.
+    const reason = `${stagingFailure.change.path}: ${stagingFailure.message ?? stagingFailure.status}`;
+    logger?.(`ROLLBACK: transaction aborted before writing: ${reason}`);
+    return {
+      operations: staged,
+      dryRun: false,
+      counts: countOperations(staged),
+      rollback: { reason, restored: [] },
+    };
+  }
+
+  const targets: string[] = [];
+  for (const op of staged.filter((op) => WRITE_STATUSES.has(op.status))) {
+    for (const relativePath of changePaths(op.change)) {
+      targets.push(await resolveProjectPathWith(rootDir, relativePath, fileSystem));
+    }
+  }
+  const backups = await backupFiles(targets, fileSystem);
 
   const operations: FileOperationResult[] = [];
 
-  for (const change of result.files) {
-    const op = await applySingleChange(change, { rootDir, dryRun, logger });
-    operations.push(op);
+  for (const [index, change] of changes.entries()) {
+    try {
+      operations.push(await applySingleChange(change, { ...options, dryRun: false }));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const restored = await restoreBackups(backups, fileSystem);
+      // The backups brought deleted files back, so their trash copies are not needed.
+      await trash?.abandon();
+      logger?.(`ROLLBACK: restored ${restored.length} file(s) after failure: ${reason}`);
+
+      const rolledBack = staged.map((op, opIndex) => ({
+        ...op,
+        message:
+          opIndex === index
+            ? `Failed: ${reason}`
+            : !WRITE_STATUSES.has(op.status)
+            ? op.message
+            : 'Rolled back (transaction aborted).',
+      }));
+
+      return {
+        operations: rolledBack,
+        dryRun: false,
+        counts: countOperations(rolledBack),
+        rollback: { reason, restored },
+      };
+    }
   }
 
-  const counts = operations.reduce(
+  await snapshots?.save();
+  await trash?.save();
+
+  return {
+    operations,
+    dryRun: false,
+    counts: countOperations(operations),
+  };
+}
+
+function countOperations(operations: FileOperationResult[]): ApplyAgentResultSummary['counts'] {
+  return operations.reduce(
     (acc, op) => {
       acc[op.status] += 1;
       return acc;
@@ -28,35 +335,283 @@ export async function applyAgentResult(
       created: 0,
       updated: 0,
       deleted: 0,
+      moved: 0,
       skipped: 0,
+      'patch-failed': 0,
+      conflict: 0,
+      merged: 0,
+      'merged-with-conflicts': 0,
+      blocked: 0,
+      'out-of-scope': 0,
+      rejected: 0,
+      failed: 0,
+      'invalid-content': 0,
+      'secret-detected': 0,
     } as ApplyAgentResultSummary['counts']
   );
+}
 
-  return {
-    operations,
-    dryRun,
-    counts,
+/**
+ * Project-relative paths changed on disk by a write-mode apply (empty for dry-runs
+ * and rolled-back transactions).
+ */
+export function writtenPaths(summary: ApplyAgentResultSummary): string[] {
+  if (summary.dryRun || summary.rollback) return [];
+
+  const paths = summary.operations
+    .filter((op) => WRITE_STATUSES.has(op.status))
+    .flatMap((op) => changePaths(op.change).map(normalizeRelativePath));
+  return [...new Set(paths)];
+}
+
+/**
+ * Measure operations against `limits`. Only operations that write count; skipped,
+ * blocked, rejected etc. do not.
+ */
+export function checkChangeLimits(operations: FileOperationResult[], limits: ChangeLimits): ChangeLimitViolation[] {
+  const writes = operations.filter((op) => WRITE_STATUSES.has(op.status));
+  const violations: ChangeLimitViolation[] = [];
+
+  const check = (limit: keyof ChangeLimits, actual: number, path?: string) => {
+    const max = limits[limit];
+    if (max !== undefined && actual > max) {
+      violations.push(path === undefined ? { limit, max, actual } : { limit, max, actual, path });
+    }
   };
+
+  check('maxFiles', new Set(writes.flatMap((op) => changePaths(op.change).map(normalizeRelativePath))).size);
+  check(
+    'maxBytes',
+    writes.reduce(
+      (sum, op) =>
+        sum + (op.proposedContent === undefined ? 0 : Buffer.byteLength(op.proposedContent, op.change.encoding ?? 'utf8')),
+      0
+    )
+  );
+  check('maxDeletes', writes.filter((op) => op.status === 'deleted').length);
+
+  for (const op of writes) {
+    check('maxLinesPerFile', (op.linesAdded ?? 0) + (op.linesRemoved ?? 0), changePaths(op.change).at(-1));
+  }
+
+  return violations;
+}
+
+/**
+ * Project-relative paths a change touches (source and destination for moves).
+ */
+export function changePaths(change: FileChange): string[] {
+  if (change.action === 'rename' || change.action === 'move') {
+    return [change.from ?? change.path, change.to ?? change.path];
+  }
+  return [change.path];
 }
 
 interface ApplySingleChangeOptions {
   rootDir: string;
+  fileSystem: FileSystemAdapter;
   dryRun: boolean;
   logger?: (message: string) => void;
+  snapshots?: SnapshotRecorder;
+  trash?: TrashBin;
+  baseline?: Record<string, FileBaseline>;
+  force?: boolean;
+  pathPolicy?: PathPolicy;
+  writeScope?: string[];
+  validation?: ContentValidationMode;
+  validators?: Record<string, ContentValidator>;
+  secretScan?: SecretScanMode;
+  secretAllowlist?: SecretAllowlist;
+}
+
+/**
+ * Those of `relativePaths` whose current content no longer matches the baseline.
+ * Paths without a baseline entry are never stale.
+ */
+export async function findStalePaths(
+  relativePaths: string[],
+  rootDir: string,
+  baseline: Record<string, FileBaseline>,
+  fileSystem: FileSystemAdapter = nodeFileSystem
+): Promise<string[]> {
+  const stale: string[] = [];
+
+  for (const relativePath of relativePaths) {
+    const expected = baseline[normalizeRelativePath(relativePath)];
+    if (!expected) continue;
+
+    const current = await readFileBufferIfExists(
+      await resolveProjectPathWith(rootDir, relativePath, fileSystem),
+      fileSystem
+    );
+    const currentHash = current === null ? null : hashContent(current);
+    if (currentHash !== expected.hash) {
+      stale.push(relativePath);
+    }
+  }
+
+  return stale;
+}
+
+/**
+ * Text to three-way merge a stale create/update against, or undefined when the
+ * change cannot be merged (binary baseline or content, delete or move).
+ */
+function mergeBaseFor(change: FileChange, baseline: Record<string, FileBaseline>): string | undefined {
+  if (change.action !== 'create' && change.action !== 'update') return undefined;
+  // Baselines hold UTF-8 text
+  if ((change.encoding ?? 'utf8') !== 'utf8') return undefined;
+
+  const entry = baseline[normalizeRelativePath(change.path)];
+  if (!entry) return undefined;
+  return entry.hash === null ? '' : entry.content;
+}
+
+function actionMismatch(change: FileChange, exists: boolean): FileOperationWarning[] {
+  if (change.action === 'create' && exists) return ['created-over-existing'];
+  if (change.action === 'update' && !exists) return ['updated-missing-file'];
+  return [];
+}
+
+function describeMismatch(warnings: FileOperationWarning[]): string {
+  if (warnings.includes('created-over-existing')) {
+    return ' The agent asked to create it, but the file already existed and was overwritten.';
+  }
+  if (warnings.includes('updated-missing-file')) {
+    return ' The agent asked to update it, but the file did not exist and was created.';
+  }
+  return '';
+}
+
+/** What validation said about some content: a problem, that it could not check it, or nothing. */
+type ContentVerdict = string | ContentNotChecked | undefined;
+
+function validationWarnings(verdict: ContentVerdict): FileOperationWarning[] {
+  if (verdict === undefined) return [];
+  return typeof verdict === 'string' ? ['invalid-content'] : ['not-validated'];
+}
+
+/** Message suffix for content written despite failing (or without passing) validation. */
+function describeInvalidContent(verdict: ContentVerdict): string {
+  if (verdict === undefined) return '';
+  return typeof verdict === 'string'
+    ? ` Content is not valid (${verdict}).`
+    : ` Content not checked (${verdict.notChecked}).`;
+}
+
+function secretWarnings(secrets: SecretFinding[]): FileOperationWarning[] {
+  return secrets.length === 0 ? [] : ['secret-detected'];
+}
+
+/** Message suffix for content written despite containing possible secrets. */
+function describeSecrets(secrets: SecretFinding[]): string {
+  return secrets.length === 0 ? '' : ` Possible secret: ${describeSecretFindings(secrets)}.`;
+}
+
+/** Append what was adjusted to match the existing file (line endings, BOM) to a message. */
+function withNormalizations(message: string, normalizations: string[]): string {
+  return normalizations.length > 0 ? `${message} Normalized to match the file: ${normalizations.join('; ')}.` : message;
+}
+
+type ResolvedContent = { content: string } | { failures: string[] } | { missing: true };
+
+/**
+ * Work out the full new content of a change: either its `content`, or its
+ * `patch`/`edits` applied to the current file.
+ */
+function resolveNewContent(change: FileChange, current: string | null): ResolvedContent {
+  if (typeof change.content === 'string') {
+    return { content: change.content };
+  }
+
+  if (typeof change.patch !== 'string' && !Array.isArray(change.edits)) {
+    return { missing: true };
+  }
+
+  const patched =
+    typeof change.patch === 'string'
+      ? applyUnifiedPatch(current ?? '', change.patch)
+      : applySearchReplace(current ?? '', change.edits ?? []);
+
+  return patched.failures.length > 0 ? { failures: patched.failures } : { content: patched.content };
 }
 
 async function applySingleChange(
-  change: AgentFileChange,
+  change: FileChange,
   options: ApplySingleChangeOptions
 ): Promise<FileOperationResult> {
-  const { rootDir, dryRun, logger } = options;
+  const {
+    rootDir,
+    fileSystem,
+    dryRun,
+    logger,
+    snapshots,
+    trash,
+    baseline,
+    force,
+    pathPolicy,
+    writeScope,
+  } = options;
+  let mergeBase: string | undefined;
+
+  if (change.action !== 'noop') {
+    for (const relativePath of changePaths(change)) {
+      const rule = findBlockingRule(relativePath, pathPolicy);
+      if (rule !== undefined) {
+        logger?.(`BLOCKED: ${relativePath}`);
+        return { change, status: 'blocked', message: `${relativePath} is protected by path rule "${rule}".` };
+      }
+
+      if (writeScope && !isInWriteScope(relativePath, writeScope)) {
+        logger?.(`OUT OF SCOPE: ${relativePath}`);
+        return { change, status: 'out-of-scope', message: `${relativePath} is outside the task's write scope.` };
+      }
+    }
+  }
+
+  if (baseline && change.action !== 'noop') {
+    const stale = await findStalePaths(changePaths(change), rootDir, baseline, fileSystem);
+    if (stale.length > 0 && force) {
+      logger?.(`FORCE: overwriting concurrent changes to ${stale.join(', ')}`);
+    } else if (stale.length > 0) {
+      mergeBase = mergeBaseFor(change, baseline);
+      const deleted =
+        mergeBase !== undefined &&
+        (await readFileIfExists(await resolveProjectPathWith(rootDir, change.path, fileSystem), fileSystem)) === null;
 
-  const targetPath = resolveProjectPath(rootDir, change.path);
+      // A file deleted on disk meanwhile is a modify/delete conflict; there is nothing to merge into.
+      if (mergeBase === undefined || deleted) {
+        logger?.(`CONFLICT: ${stale.join(', ')}`);
+        return {
+          change,
+          status: 'conflict',
+          message: `Changed on disk since the agent read it: ${stale.join(', ')}. Not written.`,
+        };
+      }
+    }
+  }
 
   switch (change.action) {
     case 'create':
     case 'update': {
-      if (typeof change.content !== 'string') {
+      const targetPath = await resolveProjectPathWith(rootDir, change.path, fileSystem);
+      const encoding = change.encoding ?? 'utf8';
+      if (!FILE_ENCODINGS.includes(encoding)) {
+        return {
+          change,
+          status: 'skipped',
+          message: `Unsupported encoding "${encoding}" (expected one of: ${FILE_ENCODINGS.join(', ')}).`,
+        };
+      }
+      if (encoding === 'base64') {
+        return applyBinaryWrite(change, options, targetPath);
+      }
+
+      const current = decodeText(await readFileBufferIfExists(targetPath, fileSystem), encoding);
+      // Patches and edits were written against what the agent saw, not the current file.
+      const resolved = resolveNewContent(change, mergeBase ?? current);
+
+      if ('missing' in resolved) {
         return {
           change,
           status: 'skipped',
@@ -64,22 +619,89 @@ async function applySingleChange(
         };
       }
 
+      if ('failures' in resolved) {
+        logger?.(`PATCH FAILED: ${change.path}`);
+        return {
+          change,
+          status: 'patch-failed',
+          message: `Patch not applied: ${resolved.failures.join(' ')}`,
+        };
+      }
+
+      const { content, normalizations } = conformToExisting(current, resolved.content);
+
+      const checked = await checkNewContent(change, options, change.path, content, current);
+      if ('status' in checked) return checked;
+      const { verdict, secrets } = checked;
+
+      if (mergeBase !== undefined) {
+        return applyMerge(change, options, mergeBase, current ?? '', content, verdict, secrets);
+      }
+
+      const { diff, linesAdded, linesRemoved } = createUnifiedDiff(change.path, current, content);
+
       if (!dryRun) {
-        await writeFileSafe(targetPath, change.content);
+        await snapshots?.capture(change.path);
+        await writeFileSafe(targetPath, encodeText(content, encoding), fileSystem);
+        await snapshots?.recordAfter(change.path);
       }
 
-      logger?.(`${change.action.toUpperCase()}: ${change.path}`);
+      // Report what happened on disk, not what the agent called it
+      const status = current === null ? 'created' : 'updated';
+      const warnings = [
+        ...actionMismatch(change, current !== null),
+        ...validationWarnings(verdict),
+        ...secretWarnings(secrets),
+      ];
+      logger?.(
+        `${status === 'created' ? 'CREATE' : 'UPDATE'}: ${change.path}${warnings.length ? ` (${warnings.join(', ')})` : ''}`
+      );
 
       return {
         change,
-        status: change.action === 'create' ? 'created' : 'updated',
-        message: dryRun ? 'Dry-run: file would be written.' : 'File written successfully.',
+        status,
+        message: withNormalizations(
+          (dryRun ? 'Dry-run: file would be written.' : 'File written successfully.') +
+            describeMismatch(warnings) +
+            describeInvalidContent(verdict) +
+            describeSecrets(secrets),
+          normalizations
+        ),
+        ...(warnings.length > 0 && { warnings }),
+        ...(secrets.length > 0 && { secrets }),
+        diff,
+        linesAdded,
+        linesRemoved,
+        proposedContent: content,
       };
     }
 
+    case 'rename':
+    case 'move':
+      return applyMove(change, options);
+
     case 'delete': {
+      const targetPath = await resolveProjectPathWith(rootDir, change.path, fileSystem);
+      const current = await readFileBufferIfExists(targetPath, fileSystem);
+      if (current === null) {
+        // Nothing is written, so the path does not count toward limits, commits or undo.
+        logger?.(`SKIP (absent): ${change.path}`);
+        return { change, status: 'skipped', message: 'File already absent; nothing to delete.' };
+      }
+
+      const binary = isBinaryContent(current);
+      const { mode } = await fileSystem.stat(targetPath);
+      const { diff, linesAdded, linesRemoved } = binary
+        ? createBinaryDiff(change.path, current, null)
+        : createUnifiedDiff(change.path, current.toString('utf8'), null);
+
+      let trashed = false;
       if (!dryRun) {
-        await deleteFileSafe(targetPath);
+        await snapshots?.capture(change.path);
+        trashed = trash ? await trash.discard(change.path) : false;
+        if (!trashed) await deleteFileSafe(targetPath, fileSystem);
+        await removeEmptyDirs(path.dirname(targetPath), path.resolve(rootDir), fileSystem);
+        await snapshots?.recordAfter(change.path);
       }
 
       logger?.(`DELETE: ${change.path}`);
@@ -87,7 +709,16 @@ async function applySingleChange(
       return {
         change,
         status: 'deleted',
-        message: dryRun ? 'Dry-run: file would be deleted.' : 'File deleted (or already absent).',
+        message: dryRun
+          ? 'Dry-run: file would be deleted.'
+          : trashed
+          ? 'File moved to the trash.'
+          : 'File deleted.',
+        ...(binary && { binary }),
+        deletedMode: mode,
+        diff,
+        linesAdded,
+        linesRemoved,
       };
     }
 
@@ -101,3 +732,275 @@ async function applySingleChange(
       };
   }
 }
+
+interface ContentChecks {
+  verdict: ContentVerdict;
+  secrets: SecretFinding[];
+}
+
+/**
+ * Validate and secret-scan the new `content` of `filePath`, as configured. Returns
+ * the operation to report instead of writing when a `block` mode check fails.
+ * Binary content is only scanned.
+ */
+async function checkNewContent(
+  change: FileChange,
+  options: ApplySingleChangeOptions,
+  filePath: string,
+  content: string,
+  previous: string | null,
+  { binary = false }: { binary?: boolean } = {}
+): Promise<ContentChecks | FileOperationResult> {
+  const { rootDir, logger, validation, secretScan } = options;
+
+  const verdict =
+    !binary && (validation === 'block' || validation === 'warn')
+      ? await validateContent(filePath, content, options.validators, rootDir)
+      : undefined;
+  if (typeof verdict === 'string' && validation === 'block') {
+    logger?.(`INVALID: ${filePath}`);
+    return { change, status: 'invalid-content', message: `Not written: ${verdict}.`, proposedContent: content };
+  }
+
+  const secrets =
+    secretScan === 'block' || secretScan === 'warn'
+      ? scanForSecrets(filePath, content, { previous, allowlist: options.secretAllowlist })
+      : [];
+  if (secrets.length > 0 && secretScan === 'block') {
+    // The content is left out of the result so the secret does not end up in patches or logs.
+    logger?.(`SECRET: ${filePath}`);
+    return {
+      change,
+      status: 'secret-detected',
+      message: `Not written: possible secret: ${describeSecretFindings(secrets)}.`,
+      secrets,
+    };
+  }
+
+  return { verdict, secrets };
+}
+
+/**
+ * Write the three-way merge of the agent's content into a file that changed on
+ * disk after the agent read it. Overlapping edits are left as conflict markers.
+ */
+async function applyMerge(
+  change: FileChange,
+  options: ApplySingleChangeOptions,
+  base: string,
+  current: string,
+  incoming: string,
+  verdict: ContentVerdict,
+  secrets: SecretFinding[]
+): Promise<FileOperationResult> {
+  const { rootDir, fileSystem, dryRun, logger, snapshots } = options;
+  const warnings = [...validationWarnings(verdict), ...secretWarnings(secrets)];
+  const targetPath = await resolveProjectPathWith(rootDir, change.path, fileSystem);
+
+  const merged = mergeThreeWay(base, current, incoming, { ours: 'current', theirs: 'agent' });
+  const { diff, linesAdded, linesRemoved } = createUnifiedDiff(change.path, current, merged.content);
+
+  if (!dryRun) {
+    await snapshots?.capture(change.path);
+    await writeFileSafe(targetPath, merged.content, fileSystem);
+    await snapshots?.recordAfter(change.path);
+  }
+
+  if (merged.conflicts > 0) {
+    logger?.(`MERGE (conflicts): ${change.path}`);
+    return {
+      change,
+      status: 'merged-with-conflicts',
+      message:
+        `${dryRun ? 'Dry-run: would merge' : 'Merged'} with ${merged.conflicts} conflict(s); resolve the <<<<<<< markers.` +
+        describeInvalidContent(verdict) +
+        describeSecrets(secrets),
+      ...(warnings.length > 0 && { warnings }),
+      ...(secrets.length > 0 && { secrets }),
+      diff,
+      linesAdded,
+      linesRemoved,
+      proposedContent: merged.content,
+    };
+  }
+
+  logger?.(`MERGE: ${change.path}`);
+  return {
+    change,
+    status: 'merged',
+    message:
+      (dryRun
+        ? 'Dry-run: would merge with changes made on disk since the agent read the file.'
+        : 'Merged with changes made on disk since the agent read the file.') +
+      describeInvalidContent(verdict) +
+      describeSecrets(secrets),
+    ...(warnings.length > 0 && { warnings }),
+    ...(secrets.length > 0 && { secrets }),
+    diff,
+    linesAdded,
+    linesRemoved,
+    proposedContent: merged.content,
+  };
+}
+
+/**
+ * Move `from` to `to` with a filesystem rename (keeping permissions and inode),
+ * then optionally write new content at the destination.
+ */
+async function applyMove(change: FileChange, options: ApplySingleChangeOptions): Promise<FileOperationResult> {
+  const { rootDir, fileSystem, dryRun, logger, snapshots } = options;
+  const [from, to] = changePaths(change);
+
+  const sourcePath = await resolveProjectPathWith(rootDir, from, fileSystem);
+  const destinationPath = await resolveProjectPathWith(rootDir, to, fileSystem);
+
+  const current = await readFileIfExists(sourcePath, fileSystem);
+  if (current === null) {
+    return { change, status: 'skipped', message: `Source file does not exist: ${from}` };
+  }
+
+  if (destinationPath !== sourcePath && (await readFileIfExists(destinationPath, fileSystem)) !== null) {
+    return { change, status: 'skipped', message: `Destination already exists: ${to}` };
+  }
+
+  const hasNewContent =
+    typeof change.content === 'string' || typeof change.patch === 'string' || Array.isArray(change.edits);
+  if (hasNewContent && (change.encoding ?? 'utf8') !== 'utf8') {
+    return {
+      change,
+      status: 'skipped',
+      message: `Moves cannot write ${change.encoding} content; move the file, then update it.`,
+    };
+  }
+  const resolved = hasNewContent ? resolveNewContent(change, current) : { content: current };
+
+  if ('failures' in resolved) {
+    logger?.(`PATCH FAILED: ${to}`);
+    return { change, status: 'patch-failed', message: `Patch not applied: ${resolved.failures.join(' ')}` };
+  }
+
+  const { content, normalizations } = conformToExisting(current, 'content' in resolved ? resolved.content : current);
+
+  const checked = hasNewContent
+    ? await checkNewContent(change, options, to, content, current)
+    : { verdict: undefined, secrets: [] };
+  if ('status' in checked) return checked;
+  const { verdict, secrets } = checked;
+  const warnings = [...validationWarnings(verdict), ...secretWarnings(secrets)];
+
+  const { diff, linesAdded, linesRemoved } = createUnifiedDiff(to, current, content, { oldPath: from });
+
+  if (!dryRun) {
+    await snapshots?.capture(from);
+    await snapshots?.capture(to);
+    await moveFileSafe(sourcePath, destinationPath, fileSystem);
+    await removeEmptyDirs(path.dirname(sourcePath), path.resolve(rootDir), fileSystem);
+    if (content !== current) {
+      await writeFileSafe(destinationPath, content, fileSystem);
+    }
+    await snapshots?.recordAfter(from);
+    await snapshots?.recordAfter(to);
+  }
+
+  logger?.(`MOVE: ${from} -> ${to}${warnings.length ? ` (${warnings.join(', ')})` : ''}`);
+
+  return {
+    change,
+    status: 'moved',
+    message: withNormalizations(
+      (dryRun ? `Dry-run: file would be moved to ${to}.` : `File moved to ${to}.`) +
+        describeInvalidContent(verdict) +
+        describeSecrets(secrets),
+      normalizations
+    ),
+    ...(warnings.length > 0 && { warnings }),
+    ...(secrets.length > 0 && { secrets }),
+    diff,
+    linesAdded,
+    linesRemoved,
+    proposedContent: content,
+  };
+}
+
+/**
+ * Write base64 `content` as raw bytes. Patches, edits, merges, validation and the
+ * line-ending/BOM adjustments only apply to text; the secret scan reads the bytes
+ * as UTF-8, since keys embedded in binaries are stored as plain text.
+ */
+async function applyBinaryWrite(
+  change: FileChange,
+  options: ApplySingleChangeOptions,
+  targetPath: string
+): Promise<FileOperationResult> {
+  const { fileSystem, dryRun, logger, snapshots } = options;
+
+  if (typeof change.content !== 'string') {
+    const hasHunks = typeof change.patch === 'string' || Array.isArray(change.edits);
+    return {
+      change,
+      status: 'skipped',
+      message: hasHunks ? 'Patches and edits cannot be applied to base64 content.' : 'Missing content for create/update action.',
+    };
+  }
+
+  if (!isBase64(change.content)) {
+    logger?.(`INVALID: ${change.path}`);
+    return { change, status: 'invalid-content', message: 'Not written: content is not valid base64.' };
+  }
+
+  const content = Buffer.from(change.content, 'base64');
+  const current = await readFileBufferIfExists(targetPath, fileSystem);
+
+  const checked = await checkNewContent(
+    change,
+    options,
+    change.path,
+    content.toString('utf8'),
+    decodeText(current, 'utf8'),
+    { binary: true }
+  );
+  if ('status' in checked) return checked;
+  const { secrets } = checked;
+
+  const { diff, linesAdded, linesRemoved } = createBinaryDiff(change.path, current, content);
+
+  if (!dryRun) {
+    await snapshots?.capture(change.path);
+    await writeFileSafe(targetPath, content, fileSystem);
+    await snapshots?.recordAfter(change.path);
+  }
+
+  const status = current === null ? 'created' : 'updated';
+  const warnings = [...actionMismatch(change, current !== null), ...secretWarnings(secrets)];
+  logger?.(
+    `${status === 'created' ? 'CREATE' : 'UPDATE'}: ${change.path}${warnings.length ? ` (${warnings.join(', ')})` : ''}`
+  );
+
+  return {
+    change,
+    status,
+    message:
+      (dryRun ? `Dry-run: ${content.length} bytes would be written.` : `${content.length} bytes written.`) +
+      describeMismatch(warnings) +
+      describeSecrets(secrets),
+    ...(warnings.length > 0 && { warnings }),
+    ...(secrets.length > 0 && { secrets }),
+    binary: true,
+    diff,
+    linesAdded,
+    linesRemoved,
+    proposedContent: content.toString('base64'),
+  };
+}
+
+function isBase64(content: string): boolean {
+  return /^[A-Za-z0-9+/]*={0,2}$/.test(content.replace(/\s+/g, ''));
+}
+
+function decodeText(content: Buffer | null, encoding: FileEncoding): string | null {
+  return content === null ? null : content.toString(encoding);
+}
+
+function encodeText(content: string, encoding: FileEncoding): string | Buffer {
+  return encoding === 'utf8' ? content : Buffer.from(content, encoding);
+}
@@ -0,0 +1,68 @@
+import * as path from 'node:path';
+import type { FileBaseline } from './types.js';
+import { resolveProjectPathWith, normalizeRelativePath, readFileBufferIfExists } from './fileSystem.js';
+import { nodeFileSystem } from './fileSystemAdapter.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
+import { hashContent } from './snapshots.js';
+import { isGlobPattern, matchesAnyGlob } from './glob.js';
+import { isBinaryContent } from './textFormat.js';
+
+/** Directories never walked when expanding glob context patterns. */
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+/**
+ * Hash every file matched by `contextFiles` (literal paths or globs) so a later
+ * apply can tell whether the file changed after the agent read it, and keep the
+ * text as the base for merging such changes.
+ *
+ * Literal paths that do not exist are recorded with hash `null`: if such a file
+ * appears before apply, that is a conflict too.
+ */
+export async function captureBaseline(
+  rootDir: string,
+  contextFiles: string[],
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<Record<string, FileBaseline>> {
+  const baseline: Record<string, FileBaseline> = {};
+  const literals = contextFiles.filter((pattern) => !isGlobPattern(pattern));
+  const globs = contextFiles.filter(isGlobPattern).map(normalizeRelativePath);
+
+  for (const literal of literals) {
+    const key = normalizeRelativePath(literal);
+    const content = await readFileBufferIfExists(await resolveProjectPathWith(rootDir, key, adapter), adapter);
+    baseline[key] = content === null ? { hash: null } : toBaseline(content);
+  }
+
+  if (globs.length > 0) {
+    for (const relativePath of await listProjectFiles(rootDir, adapter)) {
+      if (baseline[relativePath] || !matchesAnyGlob(relativePath, globs)) continue;
+      baseline[relativePath] = toBaseline(await adapter.readFile(path.join(rootDir, relativePath)));
+    }
+  }
+
+  return baseline;
+}
+
+function toBaseline(content: Buffer): FileBaseline {
+  // Binary files keep only their hash; there is nothing sensible to merge.
+  const hash = hashContent(content);
+  return isBinaryContent(content) ? { hash } : { hash, content: content.toString('utf8') };
+}
+
+async function listProjectFiles(rootDir: string, adapter: FileSystemAdapter, relativeDir = ''): Promise<string[]> {
+  const entries = await adapter.readdir(path.join(rootDir, relativeDir));
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.kind === 'directory') {
+      if (!SKIPPED_DIRS.has(entry.name)) {
+        files.push(...(await listProjectFiles(rootDir, adapter, relativePath)));
+      }
+    } else if (entry.kind === 'file') {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,262 @@
+export type DiffLineKind = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+
+  /** Line text including its trailing newline (the last line of a file may lack one). */
+  text: string;
+
+  /** 1-based line number in the old content (equal/remove lines only). */
+  oldLine?: number;
+
+  /** 1-based line number in the new content (equal/add lines only). */
+  newLine?: number;
+}
+
+export interface UnifiedDiff {
+  /** Unified diff text, or an empty string when both sides are identical. */
+  diff: string;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+export interface UnifiedDiffOptions {
+  /** Number of unchanged lines shown around each change. Default: 3. */
+  context?: number;
+
+  /** Path of the old side when it differs from `filePath` (renames). */
+  oldPath?: string;
+}
+
+/**
+ * Above this edit distance the diff degrades to "remove everything, add everything"
+ * so a full rewrite of a large file cannot exhaust memory.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Split text into lines, keeping each line's trailing newline so that
+ * "missing newline at end of file" is visible to the comparison.
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const parts = text.split('\n');
+  const lines = parts.map((part, index) => (index < parts.length - 1 ? `${part}\n` : part));
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-level diff using Myers' O(ND) algorithm.
+ * Common prefix and suffix are trimmed first to keep the search small.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle = myers(a, b);
+
+  const kinds: DiffLineKind[] = [
+    ...Array<DiffLineKind>(prefix).fill('equal'),
+    ...middle,
+    ...Array<DiffLineKind>(suffix).fill('equal'),
+  ];
+
+  const result: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  for (const kind of kinds) {
+    if (kind === 'equal') {
+      result.push({ kind, text: newLines[newIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+      oldIndex += 1;
+      newIndex += 1;
+    } else if (kind === 'remove') {
+      result.push({ kind, text: oldLines[oldIndex], oldLine: oldIndex + 1 });
+      oldIndex += 1;
+    } else {
+      result.push({ kind, text: newLines[newIndex], newLine: newIndex + 1 });
+      newIndex += 1;
+    }
+  }
+
+  return result;
+}
+
+function myers(a: string[], b: string[]): DiffLineKind[] {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0) return Array<DiffLineKind>(m).fill('add');
+  if (m === 0) return Array<DiffLineKind>(n).fill('remove');
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Only diagonals -(d+1)..(d+1) are read during step d, so that is all we keep.
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x += 1;
+        y += 1;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  return [...Array<DiffLineKind>(n).fill('remove'), ...Array<DiffLineKind>(m).fill('add')];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffLineKind[] {
+  const kinds: DiffLineKind[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      kinds.push('equal');
+      x -= 1;
+      y -= 1;
+    }
+
+    if (d > 0) {
+      kinds.push(x === prevX ? 'add' : 'remove');
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return kinds.reverse();
+}
+
+/**
+ * Build a unified diff between two versions of a file.
+ * `null` stands for "file does not exist" and is rendered as /dev/null.
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldContent: string | null,
+  newContent: string | null,
+  options: UnifiedDiffOptions = {}
+): UnifiedDiff {
+  const context = options.context ?? 3;
+  const lines = diffLines(splitLines(oldContent ?? ''), splitLines(newContent ?? ''));
+
+  const linesAdded = lines.filter((line) => line.kind === 'add').length;
+  const linesRemoved = lines.filter((line) => line.kind === 'remove').length;
+
+  if (linesAdded === 0 && linesRemoved === 0 && (oldContent === null) === (newContent === null)) {
+    return { diff: '', linesAdded, linesRemoved };
+  }
+
+  const header = [
+    `--- ${oldContent === null ? '/dev/null' : `a/${options.oldPath ?? filePath}`}`,
+    `+++ ${newContent === null ? '/dev/null' : `b/${filePath}`}`,
+  ];
+
+  const hunks = groupHunks(lines, context).map((range) => renderHunk(lines, range));
+
+  return {
+    diff: [...header, ...hunks].join('\n') + '\n',
+    linesAdded,
+    linesRemoved,
+  };
+}
+
+/**
+ * Git's one-line summary for binary content ("Binary files a/x and b/x differ"),
+ * or an empty diff when both sides are identical.
+ */
+export function createBinaryDiff(filePath: string, oldContent: Buffer | null, newContent: Buffer | null): UnifiedDiff {
+  if (oldContent !== null && newContent !== null && oldContent.equals(newContent)) {
+    return { diff: '', linesAdded: 0, linesRemoved: 0 };
+  }
+
+  const from = oldContent === null ? '/dev/null' : `a/${filePath}`;
+  const to = newContent === null ? '/dev/null' : `b/${filePath}`;
+  return { diff: `Binary files ${from} and ${to} differ\n`, linesAdded: 0, linesRemoved: 0 };
+}
+
+function groupHunks(lines: DiffLine[], context: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  lines.forEach((line, index) => {
+    if (line.kind === 'equal') return;
+
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+
+    if (last && from <= last[1] + 1) {
+      last[1] = to;
+    } else {
+      ranges.push([from, to]);
+    }
+  });
+
+  return ranges;
+}
+
+function renderHunk(lines: DiffLine[], [from, to]: [number, number]): string {
+  const hunk = lines.slice(from, to + 1);
+  const before = lines.slice(0, from);
+
+  // Unified diff numbers an empty side by the line just before it (0 at the start of the file).
+  const oldBefore = before.filter((line) => line.kind !== 'add').length;
+  const newBefore = before.filter((line) => line.kind !== 'remove').length;
+  const oldCount = hunk.filter((line) => line.kind !== 'add').length;
+  const newCount = hunk.filter((line) => line.kind !== 'remove').length;
+
+  const oldStart = oldCount > 0 ? oldBefore + 1 : oldBefore;
+  const newStart = newCount > 0 ? newBefore + 1 : newBefore;
+
+  const body = hunk.map((line) => {
+    const prefix = line.kind === 'add' ? '+' : line.kind === 'remove' ? '-' : ' ';
+    return line.text.endsWith('\n')
+      ? `${prefix}${line.text.slice(0, -1)}`
+      : `${prefix}${line.text}\n${NO_NEWLINE_MARKER}`;
+  });
+
+  return [`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body].join('\n');
+}
@@ -1,3 +1,5 @@
+import type { ChangeLimitViolation } from './types.js';
+
 export class FileEngineError extends Error {
   constructor(message: string) {
     super(message);
@@ -5,8 +7,19 @@ export class FileEngineError extends Error {
   }
 }
 
+/**
+ * Why a path was rejected:
+ * - `outside-root`: the path itself points outside the project root
+ * - `symlink-escape`: the path is inside the root but a symlink on it leads out
+ * - `symlink-loop`: a symlink on the path cannot be resolved (cycle)
+ */
+export type InvalidPathReason = 'outside-root' | 'symlink-escape' | 'symlink-loop';
+
 export class InvalidPathError extends FileEngineError {
-  constructor(message = 'File path is invalid or out of project root') {
+  constructor(
+    message = 'File path is invalid or out of project root',
+    public readonly reason: InvalidPathReason = 'outside-root'
+  ) {
     super(message);
     this.name = 'InvalidPathError';
   }
@@ -18,3 +31,27 @@ export class FileSystemOperationError extends FileEngineError {
     this.name = 'FileSystemOperationError';
   }
 }
+
+export class ChangeLimitError extends FileEngineError {
+  constructor(
+    message: string,
+    public readonly violations: ChangeLimitViolation[]
+  ) {
+    super(message);
+    this.name = 'ChangeLimitError';
+  }
+}
+
+export class SnapshotError extends FileEngineError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+export class TrashError extends FileEngineError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrashError';
+  }
+}
@@ -1,6 +1,8 @@
 import * as path from 'node:path';
 import * as fs from 'node:fs/promises';
 import { InvalidPathError, FileSystemOperationError } from './errors.js';
+import { nodeFileSystem, resolveRealPath } from './fileSystemAdapter.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
 
 /**
  * Convert Windows-style paths to POSIX-style paths.
@@ -10,16 +12,59 @@ function toPosixPath(filePath: string): string {
   return filePath.replace(/\\/g, '/');
 }
 
+/**
+ * Normalize a project-relative path to the POSIX form used as a lookup key
+ * (no leading `./`, forward slashes, no redundant segments).
+ */
+export function normalizeRelativePath(relativePath: string): string {
+  return path.posix.normalize(toPosixPath(relativePath)).replace(/^\.\//, '');
+}
+
+function isInside(rootDir: string, target: string): boolean {
+  return target === rootDir || target.startsWith(rootDir + path.sep);
+}
+
+/**
+ * Resolve `relativePath` under `rootDir` and make sure it stays there, both
+ * lexically and after following symlinks on any existing part of the path.
+ * Returns the lexical absolute path.
+ */
 export function resolveProjectPath(rootDir: string, relativePath: string): string {
-  const normalized = toPosixPath(relativePath);
-  const resolved = path.resolve(rootDir, normalized);
+  const { normalizedRoot, resolved } = resolveLexically(rootDir, relativePath);
+  checkRealPath(relativePath, resolveRealPath(normalizedRoot), resolveRealPath(resolved));
+  return resolved;
+}
+
+/**
+ * resolveProjectPath with symlinks followed through `adapter` instead of on the
+ * local disk.
+ */
+export async function resolveProjectPathWith(
+  rootDir: string,
+  relativePath: string,
+  adapter: FileSystemAdapter
+): Promise<string> {
+  const { normalizedRoot, resolved } = resolveLexically(rootDir, relativePath);
+  checkRealPath(relativePath, await adapter.realpath(normalizedRoot), await adapter.realpath(resolved));
+  return resolved;
+}
 
+function resolveLexically(rootDir: string, relativePath: string): { normalizedRoot: string; resolved: string } {
+  const resolved = path.resolve(rootDir, toPosixPath(relativePath));
   const normalizedRoot = path.resolve(rootDir);
-  if (!resolved.startsWith(normalizedRoot + path.sep) && resolved !== normalizedRoot) {
+  if (!isInside(normalizedRoot, resolved)) {
     throw new InvalidPathError();
   }
+  return { normalizedRoot, resolved };
+}
 
-  return resolved;
+function checkRealPath(relativePath: string, realRoot: string, realTarget: string): void {
+  if (!isInside(realRoot, realTarget)) {
+    throw new InvalidPathError(
+      `Path leaves the project root through a symlink: ${relativePath} -> ${realTarget}`,
+      'symlink-escape'
+    );
+  }
 }
 
 export async function ensureDirectoryExists(filePath: string): Promise<void> {
@@ -27,21 +72,65 @@ export async function ensureDirectoryExists(filePath: string): Promise<void> {
   await fs.mkdir(dir, { recursive: true });
 }
 
-export async function writeFileSafe(filePath: string, content: string): Promise<void> {
+export async function readFileIfExists(
+  filePath: string,
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<string | null> {
+  const content = await readFileBufferIfExists(filePath, adapter);
+  return content === null ? null : content.toString('utf8');
+}
+
+export async function readFileBufferIfExists(
+  filePath: string,
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<Buffer | null> {
+  try {
+    return await adapter.readFile(filePath);
+  } catch (error: unknown) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
+      return null;
+    }
+    throw new FileSystemOperationError(`Failed to read file: ${filePath}`);
+  }
+}
+
+/**
+ * Write through `adapter` (see FileSystemAdapter.writeFile). On the local disk the
+ * write is atomic, so a crash never leaves a half-written file.
+ */
+export async function writeFileSafe(
+  filePath: string,
+  content: string | Buffer,
+  adapter: FileSystemAdapter = nodeFileSystem,
+  mode?: number
+): Promise<void> {
   try {
-    await ensureDirectoryExists(filePath);
-    await fs.writeFile(filePath, content, 'utf8');
+    await adapter.writeFile(filePath, content, mode);
   } catch (error) {
     throw new FileSystemOperationError(`Failed to write file: ${filePath}`);
   }
 }
 
-export async function deleteFileSafe(filePath: string): Promise<void> {
+export async function moveFileSafe(
+  fromPath: string,
+  toPath: string,
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<void> {
+  try {
+    await adapter.rename(fromPath, toPath);
+  } catch (error) {
+    throw new FileSystemOperationError(`Failed to move file: ${fromPath} -> ${toPath}`);
+  }
+}
+
+export async function deleteFileSafe(filePath: string, adapter: FileSystemAdapter = nodeFileSystem): Promise<void> {
   try {
-    await fs.unlink(filePath);
+    await adapter.deleteFile(filePath);
   } catch (error: unknown) {
     // If file does not exist, treat as success (idempotent delete)
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
       return;
     }
     throw new FileSystemOperationError(`Failed to delete file: ${filePath}`);
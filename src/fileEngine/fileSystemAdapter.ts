@@ -0,0 +1,160 @@
+import * as path from 'node:path';
+import * as fs from 'node:fs/promises';
+import * as fsSync from 'node:fs';
+import { randomBytes } from 'node:crypto';
+import { InvalidPathError, FileSystemOperationError } from './errors.js';
+
+export type FileKind = 'file' | 'directory' | 'other';
+
+export interface FileStat {
+  kind: FileKind;
+
+  /** Permission bits, e.g. `0o644`. */
+  mode: number;
+
+  size: number;
+}
+
+export interface DirectoryEntry {
+  name: string;
+  kind: FileKind;
+}
+
+/**
+ * Storage the file engine reads and writes through. Paths are absolute. Methods
+ * reject like `node:fs` does, with a `code` such as `ENOENT`, `ENOTDIR` or
+ * `EISDIR` on the error.
+ */
+export interface FileSystemAdapter {
+  readFile(filePath: string): Promise<Buffer>;
+
+  /**
+   * Create or replace a file, creating missing parent directories. The file gets
+   * `mode` when it is given; otherwise an existing file keeps its mode. A
+   * symlinked target is written through the link.
+   */
+  writeFile(filePath: string, content: string | Buffer, mode?: number): Promise<void>;
+
+  deleteFile(filePath: string): Promise<void>;
+
+  /** Move a file, creating missing parent directories of `toPath`. */
+  rename(fromPath: string, toPath: string): Promise<void>;
+
+  /** Follows symlinks. */
+  stat(filePath: string): Promise<FileStat>;
+
+  /**
+   * Where `filePath` really lives: symlinks on its existing part resolved and the
+   * missing segments appended, following dangling links to where a write would
+   * create the file.
+   */
+  realpath(filePath: string): Promise<string>;
+
+  readdir(dirPath: string): Promise<DirectoryEntry[]>;
+
+  /** Remove a directory; rejects when it is not empty. */
+  removeEmptyDirectory(dirPath: string): Promise<void>;
+}
+
+/** Upper bound on chained dangling symlinks followed by resolveRealPath. */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Synchronous realpath of `target` on the local disk, as described on
+ * FileSystemAdapter.realpath.
+ */
+export function resolveRealPath(target: string, depth = 0): string {
+  const missing: string[] = [];
+  let existing = target;
+
+  for (;;) {
+    try {
+      return path.join(fsSync.realpathSync(existing), ...missing.reverse());
+    } catch (error: unknown) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ELOOP' || depth > MAX_SYMLINK_DEPTH) {
+        throw new InvalidPathError(`Cannot resolve symlinks in path: ${target}`, 'symlink-loop');
+      }
+      if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+        throw new FileSystemOperationError(`Failed to resolve path: ${target}`);
+      }
+    }
+
+    const linkTarget = readDanglingLink(existing);
+    if (linkTarget !== undefined) {
+      const followed = resolveRealPath(path.resolve(path.dirname(existing), linkTarget), depth + 1);
+      return path.join(followed, ...missing.reverse());
+    }
+
+    const parent = path.dirname(existing);
+    if (parent === existing) {
+      return target;
+    }
+    missing.push(path.basename(existing));
+    existing = parent;
+  }
+}
+
+function readDanglingLink(candidate: string): string | undefined {
+  try {
+    return fsSync.lstatSync(candidate).isSymbolicLink() ? fsSync.readlinkSync(candidate) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function kindOf(stats: { isFile(): boolean; isDirectory(): boolean }): FileKind {
+  return stats.isFile() ? 'file' : stats.isDirectory() ? 'directory' : 'other';
+}
+
+/**
+ * The local disk. Writes are atomic: the content goes to a temp file next to the
+ * target, which is then renamed over it, so a crash never leaves a half-written file.
+ */
+export const nodeFileSystem: FileSystemAdapter = {
+  readFile: (filePath) => fs.readFile(filePath),
+
+  async writeFile(filePath, content, mode) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const existing = await fs.stat(filePath).catch(() => undefined);
+    const targetPath = existing ? await fs.realpath(filePath) : filePath;
+    const tempPath = path.join(
+      path.dirname(targetPath),
+      `.${path.basename(targetPath)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`
+    );
+
+    try {
+      await fs.writeFile(tempPath, content, 'utf8');
+      const fileMode = mode ?? existing?.mode;
+      if (fileMode !== undefined) {
+        await fs.chmod(tempPath, fileMode & 0o7777);
+      }
+      await fs.rename(tempPath, targetPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => undefined);
+      throw error;
+    }
+  },
+
+  deleteFile: (filePath) => fs.unlink(filePath),
+
+  async rename(fromPath, toPath) {
+    await fs.mkdir(path.dirname(toPath), { recursive: true });
+    await fs.rename(fromPath, toPath);
+  },
+
+  async stat(filePath) {
+    const stats = await fs.stat(filePath);
+    return { kind: kindOf(stats), mode: stats.mode & 0o7777, size: stats.size };
+  },
+
+  realpath: async (filePath) => resolveRealPath(filePath),
+
+  async readdir(dirPath) {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.map((entry) => ({ name: entry.name, kind: kindOf(entry) }));
+  },
+
+  removeEmptyDirectory: (dirPath) => fs.rmdir(dirPath),
+};
@@ -0,0 +1,86 @@
+import { WRITE_STATUSES, changePaths } from './apply.js';
+import { resolveProjectPathWith } from './fileSystem.js';
+import { nodeFileSystem } from './fileSystemAdapter.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
+import type { FileOperationResult } from './types.js';
+
+const REGULAR_MODE = '100644';
+const EXECUTABLE_MODE = '100755';
+
+/**
+ * Render the operations that write files (creates, updates, deletes, moves and
+ * merges) as one git-style patch that `git apply` accepts. Operations that were
+ * skipped, blocked, rejected etc. are left out. Binary files are only reported as
+ * differing, as `git diff` does without `--binary`.
+ *
+ * Deleted files get the mode recorded by the delete. `rootDir` is used to look up
+ * the mode of created files on disk (read through `adapter`); without it (or when
+ * the file is gone) regular files are assumed.
+ */
+export async function formatGitPatch(
+  operations: FileOperationResult[],
+  rootDir?: string,
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<string> {
+  const sections: string[] = [];
+
+  for (const op of operations) {
+    if (!WRITE_STATUSES.has(op.status)) continue;
+    const section = await formatOperation(op, rootDir, adapter);
+    if (section) sections.push(section);
+  }
+
+  return sections.join('');
+}
+
+async function formatOperation(
+  op: FileOperationResult,
+  rootDir: string | undefined,
+  adapter: FileSystemAdapter
+): Promise<string | undefined> {
+  const paths = changePaths(op.change);
+  const from = paths[0];
+  const to = paths[paths.length - 1];
+  const diff = op.diff ?? '';
+  const renamed = from !== to;
+  // Binary changes are summarized the way `git diff` does without --binary
+  const body = op.binary || diff.includes('\n@@ ') ? diff : '';
+  const created = diff.startsWith('--- /dev/null') || diff.startsWith('Binary files /dev/null ');
+  const deleted = diff.includes('\n+++ /dev/null') || diff.endsWith(' and /dev/null differ\n');
+
+  if (!renamed && !body && !created) {
+    // Nothing changed (e.g. an update to identical content, or a delete of a missing file).
+    return undefined;
+  }
+
+  const header = [`diff --git a/${from} b/${to}`];
+  if (created) {
+    header.push(`new file mode ${await fileMode(rootDir, to, adapter)}`);
+  } else if (deleted) {
+    header.push(
+      `deleted file mode ${
+        op.deletedMode === undefined ? await fileMode(rootDir, from, adapter) : gitMode(op.deletedMode)
+      }`
+    );
+  } else if (renamed) {
+    if (!body) header.push('similarity index 100%');
+    header.push(`rename from ${from}`, `rename to ${to}`);
+  }
+
+  // Git writes no ---/+++ lines for a section without hunks (an empty new file or a pure rename).
+  return `${header.join('\n')}\n${body}`;
+}
+
+async function fileMode(rootDir: string | undefined, relativePath: string, adapter: FileSystemAdapter): Promise<string> {
+  if (!rootDir) return REGULAR_MODE;
+  try {
+    const stats = await adapter.stat(await resolveProjectPathWith(rootDir, relativePath, adapter));
+    return gitMode(stats.mode);
+  } catch {
+    return REGULAR_MODE;
+  }
+}
+
+function gitMode(mode: number): string {
+  return mode & 0o111 ? EXECUTABLE_MODE : REGULAR_MODE;
+}
@@ -0,0 +1,82 @@
+export interface GlobOptions {
+  /**
+   * When true, a pattern without a slash matches the file name at any depth
+   * (gitignore semantics), e.g. `.env` matches `config/.env`. A leading `/`
+   * anchors the pattern to the root instead.
+   */
+  matchBase?: boolean;
+}
+
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Convert a glob to a regular expression over POSIX-style relative paths.
+ *
+ * Supported: `**` (any number of directories), `*`, `?`, `[...]` classes
+ * (`[!...]` negated) and `{a,b}` alternatives. A trailing `/` matches
+ * everything under that directory.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '/**');
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === '*') {
+      if (normalized[i + 1] === '*') {
+        const atSegmentStart = i === 0 || normalized[i - 1] === '/';
+        if (atSegmentStart && normalized[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = normalized.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = normalized.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(filePath: string, pattern: string, options: GlobOptions = {}): boolean {
+  const normalizedPath = filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (pattern.startsWith('/')) {
+    return globToRegExp(pattern.slice(1)).test(normalizedPath);
+  }
+
+  const trimmed = pattern.replace(/\/$/, '');
+  const anchored = options.matchBase && !trimmed.includes('/') ? `**/${pattern}` : pattern;
+  return globToRegExp(anchored).test(normalizedPath);
+}
+
+export function matchesAnyGlob(filePath: string, patterns: string[], options: GlobOptions = {}): string | undefined {
+  return patterns.find((pattern) => matchesGlob(filePath, pattern, options));
+}
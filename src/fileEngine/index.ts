@@ -1,18 +1,98 @@
 export type {
+  FileChange,
+  FileChangeAction,
+  FileEncoding,
+  FileChangeSet,
+  FileBaseline,
   FileOperationStatus,
+  FileOperationWarning,
   FileOperationResult,
   ApplyAgentResultSummary,
   ApplyAgentResultOptions,
+  ApplyRollback,
+  ReviewDecision,
+  ReviewCallback,
+  ChangeLimits,
+  ChangeLimitViolation,
+  LimitConfirmation,
+  ContentValidationMode,
+  ContentNotChecked,
+  ContentValidator,
+  SecretScanMode,
+  SecretFinding,
+  SecretAllowlist,
 } from './types.js';
 export {
   InvalidPathError,
   FileSystemOperationError,
   FileEngineError,
+  SnapshotError,
+  TrashError,
+  ChangeLimitError,
 } from './errors.js';
+export type { InvalidPathReason } from './errors.js';
 export {
+  normalizeRelativePath,
   resolveProjectPath,
+  resolveProjectPathWith,
   ensureDirectoryExists,
+  readFileIfExists,
+  readFileBufferIfExists,
   writeFileSafe,
   deleteFileSafe,
+  moveFileSafe,
 } from './fileSystem.js';
-export { applyAgentResult } from './apply.js';
+export { nodeFileSystem } from './fileSystemAdapter.js';
+export type { DirectoryEntry, FileKind, FileStat, FileSystemAdapter } from './fileSystemAdapter.js';
+export { MemoryFileSystem } from './memoryFileSystem.js';
+export { backupFiles, restoreBackups, removeEmptyDirs } from './transaction.js';
+export type { FileBackup } from './transaction.js';
+export {
+  SnapshotRecorder,
+  readSnapshotManifest,
+  restoreSnapshot,
+  hashContent,
+} from './snapshots.js';
+export type {
+  SnapshotEntry,
+  SnapshotManifest,
+  UndoFileStatus,
+  UndoFileResult,
+  UndoSummary,
+  RestoreSnapshotOptions,
+} from './snapshots.js';
+export { TrashBin, readTrashManifest, restoreFromTrash, forgetTrashEntries, emptyTrash } from './trash.js';
+export type {
+  TrashEntry,
+  TrashManifest,
+  TrashRestoreStatus,
+  TrashRestoreResult,
+  TrashRestoreSummary,
+  RestoreTrashOptions,
+} from './trash.js';
+export { parseUnifiedPatch, applyUnifiedPatch, applySearchReplace } from './patch.js';
+export type { PatchHunk, SearchReplaceEdit, PatchApplyResult } from './patch.js';
+export { globToRegExp, isGlobPattern, matchesGlob, matchesAnyGlob } from './glob.js';
+export type { GlobOptions } from './glob.js';
+export { FILE_ENCODINGS, conformToExisting, detectTextFormat, isBinaryContent } from './textFormat.js';
+export type { ConformResult, LineEnding, TextFormat } from './textFormat.js';
+export { mergeThreeWay } from './merge.js';
+export type { MergeLabels, MergeResult } from './merge.js';
+export { DEFAULT_DENY_PATTERNS, findBlockingRule, isInWriteScope } from './pathPolicy.js';
+export type { PathPolicy } from './pathPolicy.js';
+export { createBinaryDiff, createUnifiedDiff, diffLines, splitLines } from './diff.js';
+export type { DiffLine, DiffLineKind, UnifiedDiff, UnifiedDiffOptions } from './diff.js';
+export {
+  WRITE_STATUSES,
+  applyAgentResult,
+  changePaths,
+  checkChangeLimits,
+  findStalePaths,
+  writtenPaths,
+} from './apply.js';
+export { CHANGE_LIMIT_KEYS, describeLimitViolation } from './limits.js';
+export { CONTENT_VALIDATION_MODES, DEFAULT_VALIDATORS, validateContent } from './validators.js';
+export { SECRET_SCAN_MODES, DEFAULT_SECRET_RULES, scanForSecrets, describeSecretFindings } from './secrets.js';
+export type { SecretRule } from './secrets.js';
+export { captureBaseline } from './baseline.js';
+export { formatGitPatch } from './gitPatch.js';
@@ -0,0 +1,20 @@
+import type { ChangeLimits, ChangeLimitViolation } from './types.js';
+
+export const CHANGE_LIMIT_KEYS: ReadonlyArray<keyof ChangeLimits> = ['maxFiles', 'maxBytes', 'maxDeletes', 'maxLinesPerFile'];
+
+/**
+ * One-line description of a violation, e.g. `12 deletes (limit 5)`.
+ */
+export function describeLimitViolation(violation: ChangeLimitViolation): string {
+  const { limit, max, actual, path } = violation;
+  switch (limit) {
+    case 'maxFiles':
+      return `${actual} files touched (limit ${max})`;
+    case 'maxBytes':
+      return `${actual} bytes written (limit ${max})`;
+    case 'maxDeletes':
+      return `${actual} deletes (limit ${max})`;
+    case 'maxLinesPerFile':
+      return `${path}: ${actual} lines changed (limit ${max})`;
+  }
+}
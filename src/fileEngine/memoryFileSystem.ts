@@ -0,0 +1,131 @@
+import * as path from 'node:path';
+import type { DirectoryEntry, FileStat, FileSystemAdapter } from './fileSystemAdapter.js';
+
+const DEFAULT_FILE_MODE = 0o644;
+const DIRECTORY_MODE = 0o755;
+
+interface MemoryFile {
+  content: Buffer;
+  mode: number;
+}
+
+function fsError(code: string, syscall: string, filePath: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${syscall} '${filePath}'`);
+  error.code = code;
+  error.syscall = syscall;
+  error.path = filePath;
+  return error;
+}
+
+/**
+ * A FileSystemAdapter that keeps everything in memory, for previewing changes
+ * against a virtual tree and for tests. There are no symlinks, so `realpath`
+ * only normalizes the path.
+ */
+export class MemoryFileSystem implements FileSystemAdapter {
+  private readonly files = new Map<string, MemoryFile>();
+  private readonly directories = new Set<string>([path.parse(path.resolve('/')).root]);
+
+  /** `files` maps absolute paths to their initial content. */
+  constructor(files: Record<string, string | Buffer> = {}) {
+    for (const [filePath, content] of Object.entries(files)) {
+      this.put(path.resolve(filePath), { content: Buffer.from(content), mode: DEFAULT_FILE_MODE });
+    }
+  }
+
+  /** Every file as UTF-8 text, keyed by absolute path. */
+  toJSON(): Record<string, string> {
+    const paths = [...this.files.keys()].sort();
+    return Object.fromEntries(paths.map((filePath) => [filePath, this.files.get(filePath)!.content.toString('utf8')]));
+  }
+
+  async readFile(filePath: string): Promise<Buffer> {
+    const file = this.files.get(this.lookup(filePath, 'open'));
+    if (!file) throw fsError(this.directories.has(path.resolve(filePath)) ? 'EISDIR' : 'ENOENT', 'open', filePath);
+    return Buffer.from(file.content);
+  }
+
+  async writeFile(filePath: string, content: string | Buffer, mode?: number): Promise<void> {
+    const key = this.lookup(filePath, 'open');
+    if (this.directories.has(key)) throw fsError('EISDIR', 'open', filePath);
+
+    this.put(key, { content: Buffer.from(content), mode: mode ?? this.files.get(key)?.mode ?? DEFAULT_FILE_MODE });
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    const key = this.lookup(filePath, 'unlink');
+    if (this.directories.has(key)) throw fsError('EISDIR', 'unlink', filePath);
+    if (!this.files.delete(key)) throw fsError('ENOENT', 'unlink', filePath);
+  }
+
+  async rename(fromPath: string, toPath: string): Promise<void> {
+    const from = this.lookup(fromPath, 'rename');
+    const to = this.lookup(toPath, 'rename');
+    const file = this.files.get(from);
+    if (!file) throw fsError('ENOENT', 'rename', fromPath);
+    if (this.directories.has(to)) throw fsError('EISDIR', 'rename', toPath);
+
+    this.files.delete(from);
+    this.put(to, file);
+  }
+
+  async stat(filePath: string): Promise<FileStat> {
+    const key = this.lookup(filePath, 'stat');
+    const file = this.files.get(key);
+    if (file) return { kind: 'file', mode: file.mode, size: file.content.length };
+    if (this.directories.has(key)) return { kind: 'directory', mode: DIRECTORY_MODE, size: 0 };
+    throw fsError('ENOENT', 'stat', filePath);
+  }
+
+  async realpath(filePath: string): Promise<string> {
+    return path.resolve(filePath);
+  }
+
+  async readdir(dirPath: string): Promise<DirectoryEntry[]> {
+    const key = this.lookup(dirPath, 'scandir');
+    if (!this.directories.has(key)) {
+      throw fsError(this.files.has(key) ? 'ENOTDIR' : 'ENOENT', 'scandir', dirPath);
+    }
+    return this.children(key);
+  }
+
+  async removeEmptyDirectory(dirPath: string): Promise<void> {
+    const key = this.lookup(dirPath, 'rmdir');
+    if (!this.directories.has(key)) {
+      throw fsError(this.files.has(key) ? 'ENOTDIR' : 'ENOENT', 'rmdir', dirPath);
+    }
+    if (this.children(key).length > 0) throw fsError('ENOTEMPTY', 'rmdir', dirPath);
+    this.directories.delete(key);
+  }
+
+  /** Absolute key for `filePath`; rejects with ENOTDIR when a parent is a file. */
+  private lookup(filePath: string, syscall: string): string {
+    const key = path.resolve(filePath);
+    for (let dir = path.dirname(key); dir !== path.dirname(dir); dir = path.dirname(dir)) {
+      if (this.files.has(dir)) throw fsError('ENOTDIR', syscall, filePath);
+    }
+    return key;
+  }
+
+  private put(key: string, file: MemoryFile): void {
+    for (let dir = path.dirname(key); !this.directories.has(dir); dir = path.dirname(dir)) {
+      this.directories.add(dir);
+    }
+    this.files.set(key, file);
+  }
+
+  private children(dir: string): DirectoryEntry[] {
+    const entries: DirectoryEntry[] = [];
+    for (const candidate of this.directories) {
+      if (candidate !== dir && path.dirname(candidate) === dir) {
+        entries.push({ name: path.basename(candidate), kind: 'directory' });
+      }
+    }
+    for (const filePath of this.files.keys()) {
+      if (path.dirname(filePath) === dir) {
+        entries.push({ name: path.basename(filePath), kind: 'file' });
+      }
+    }
+    return entries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
@@ -0,0 +1,136 @@
+import { diffLines, splitLines } from './diff.js';
+
+export interface MergeLabels {
+  /** Label after `<<<<<<<` (the current file). Default: "ours". */
+  ours?: string;
+
+  /** Label after `>>>>>>>` (the incoming change). Default: "theirs". */
+  theirs?: string;
+}
+
+export interface MergeResult {
+  /** Merged text; overlapping edits are wrapped in conflict markers. */
+  content: string;
+
+  /** Number of conflict blocks written into `content`. */
+  conflicts: number;
+}
+
+/** A replacement of base lines [start, end) by `lines`. */
+interface Edit {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Three-way line merge of `ours` and `theirs`, both derived from `base`.
+ *
+ * Edits that touch different regions of the base are combined. Edits that overlap
+ * (or are directly adjacent) merge cleanly only when both sides made the same
+ * change; otherwise the region is written as a git-style conflict block.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string, labels: MergeLabels = {}): MergeResult {
+  const baseLines = splitLines(base);
+  const ourEdits = collectEdits(baseLines, splitLines(ours)).map((edit) => ({ ...edit, side: 'ours' as const }));
+  const theirEdits = collectEdits(baseLines, splitLines(theirs)).map((edit) => ({ ...edit, side: 'theirs' as const }));
+
+  const edits = [...ourEdits, ...theirEdits].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let index = 0;
+
+  while (index < edits.length) {
+    const group = [edits[index]];
+    let end = edits[index].end;
+    index += 1;
+
+    while (index < edits.length && edits[index].start <= end) {
+      end = Math.max(end, edits[index].end);
+      group.push(edits[index]);
+      index += 1;
+    }
+
+    const start = group[0].start;
+    output.push(...baseLines.slice(position, start));
+    position = end;
+
+    const ourGroup = group.filter((edit) => edit.side === 'ours');
+    const theirGroup = group.filter((edit) => edit.side === 'theirs');
+    const ourText = applyEdits(baseLines, start, end, ourGroup);
+    const theirText = applyEdits(baseLines, start, end, theirGroup);
+
+    if (theirGroup.length === 0 || sameLines(ourText, theirText)) {
+      output.push(...ourText);
+    } else if (ourGroup.length === 0) {
+      output.push(...theirText);
+    } else {
+      conflicts += 1;
+      output.push(
+        `<<<<<<< ${labels.ours ?? 'ours'}\n`,
+        ...terminated(ourText),
+        '=======\n',
+        ...terminated(theirText),
+        `>>>>>>> ${labels.theirs ?? 'theirs'}\n`
+      );
+    }
+  }
+
+  output.push(...baseLines.slice(position));
+
+  return { content: output.join(''), conflicts };
+}
+
+function collectEdits(baseLines: string[], otherLines: string[]): Edit[] {
+  const edits: Edit[] = [];
+  let baseIndex = 0;
+  let current: Edit | undefined;
+
+  for (const line of diffLines(baseLines, otherLines)) {
+    if (line.kind === 'equal') {
+      current = undefined;
+      baseIndex += 1;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: baseIndex, end: baseIndex, lines: [] };
+      edits.push(current);
+    }
+
+    if (line.kind === 'remove') {
+      baseIndex += 1;
+      current.end = baseIndex;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+
+  return edits;
+}
+
+/** The base region [start, end) with one side's edits applied. */
+function applyEdits(baseLines: string[], start: number, end: number, edits: Edit[]): string[] {
+  const result: string[] = [];
+  let position = start;
+
+  for (const edit of edits) {
+    result.push(...baseLines.slice(position, edit.start), ...edit.lines);
+    position = edit.end;
+  }
+
+  result.push(...baseLines.slice(position, end));
+  return result;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/** Make sure a conflict side ends with a newline so the next marker starts its own line. */
+function terminated(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith('\n') ? lines : [...lines.slice(0, -1), `${last}\n`];
+}
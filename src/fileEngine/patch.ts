@@ -0,0 +1,233 @@
+export interface PatchHunk {
+  /** The `@@ ... @@` header, or undefined for a bare +/- block without position. */
+  header?: string;
+
+  /** 1-based start line in the old file taken from the header. */
+  oldStart?: number;
+
+  oldLines: string[];
+  newLines: string[];
+
+  /** The hunk's old side ends without a trailing newline. */
+  oldNoNewlineAtEnd: boolean;
+
+  /** The hunk's new side ends without a trailing newline. */
+  newNoNewlineAtEnd: boolean;
+}
+
+export interface SearchReplaceEdit {
+  /** Exact text to find in the current file. */
+  search: string;
+
+  /** Text that replaces the first occurrence of `search`. */
+  replace: string;
+}
+
+export interface PatchApplyResult {
+  /** Patched content (equal to the input when nothing applied). */
+  content: string;
+
+  /** Human-readable descriptions of hunks/edits that did not match. */
+  failures: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse unified-diff hunks for a single file.
+ *
+ * Parsing is lenient about what models typically get wrong: line counts in the
+ * header are ignored, blank lines inside a hunk are treated as empty context, and a
+ * patch without any `@@` header is read as one hunk whose position is searched for.
+ */
+export function parseUnifiedPatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | undefined;
+  let lastSide: 'old' | 'new' | 'both' | undefined;
+
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const startHunk = (header?: string, oldStart?: number): PatchHunk => {
+    const hunk: PatchHunk = {
+      header,
+      oldStart,
+      oldLines: [],
+      newLines: [],
+      oldNoNewlineAtEnd: false,
+      newNoNewlineAtEnd: false,
+    };
+    hunks.push(hunk);
+    return hunk;
+  };
+
+  for (const line of lines) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = startHunk(line, Number(header[1]));
+      lastSide = undefined;
+      continue;
+    }
+
+    if (!current && isFileHeader(line)) {
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      if (current && (lastSide === 'old' || lastSide === 'both')) current.oldNoNewlineAtEnd = true;
+      if (current && (lastSide === 'new' || lastSide === 'both')) current.newNoNewlineAtEnd = true;
+      continue;
+    }
+
+    current ??= startHunk();
+
+    if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+      lastSide = 'new';
+    } else if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+      lastSide = 'old';
+    } else {
+      const text = line.startsWith(' ') ? line.slice(1) : line;
+      current.oldLines.push(text);
+      current.newLines.push(text);
+      lastSide = 'both';
+    }
+  }
+
+  return hunks;
+}
+
+function isFileHeader(line: string): boolean {
+  return (
+    line.startsWith('--- ') ||
+    line.startsWith('+++ ') ||
+    line.startsWith('diff --git ') ||
+    line.startsWith('index ') ||
+    line.startsWith('new file mode') ||
+    line.startsWith('deleted file mode')
+  );
+}
+
+/**
+ * Apply unified-diff hunks to `original`.
+ *
+ * Each hunk is looked for at its header position first (adjusted by the line shift
+ * of earlier hunks), then at the nearest matching position anywhere in the file,
+ * and finally with trailing whitespace ignored. Hunks that cannot be located are
+ * reported in `failures`; the caller decides whether to use the partial result.
+ */
+export function applyUnifiedPatch(original: string, patch: string): PatchApplyResult {
+  const hunks = parseUnifiedPatch(patch);
+  if (hunks.length === 0) {
+    return { content: original, failures: ['Patch contains no hunks.'] };
+  }
+
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const lines = original === '' ? [] : original.split(/\r?\n/);
+  let finalNewline = original === '' || lines[lines.length - 1] === '';
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const failures: string[] = [];
+  let shift = 0;
+
+  hunks.forEach((hunk, index) => {
+    const expected =
+      hunk.oldStart === undefined
+        ? hunk.oldLines.length === 0
+          ? lines.length
+          : 0
+        : Math.max(0, (hunk.oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + shift);
+
+    const position = locateHunk(lines, hunk.oldLines, expected);
+    if (position === undefined) {
+      failures.push(`Hunk ${index + 1}${hunk.header ? ` (${hunk.header})` : ''} did not match the current file.`);
+      return;
+    }
+
+    const touchesEnd = position + hunk.oldLines.length === lines.length;
+    lines.splice(position, hunk.oldLines.length, ...hunk.newLines);
+    shift += hunk.newLines.length - hunk.oldLines.length;
+
+    if (touchesEnd) {
+      if (hunk.newNoNewlineAtEnd) {
+        finalNewline = false;
+      } else if (hunk.oldNoNewlineAtEnd || hunk.newLines.length > 0) {
+        finalNewline = true;
+      }
+    }
+  });
+
+  const content = lines.length === 0 ? '' : lines.join(eol) + (finalNewline ? eol : '');
+  return { content, failures };
+}
+
+function locateHunk(lines: string[], needle: string[], expected: number): number | undefined {
+  if (needle.length === 0) {
+    return Math.min(expected, lines.length);
+  }
+
+  const exact = (a: string, b: string) => a === b;
+  const loose = (a: string, b: string) => a.trimEnd() === b.trimEnd();
+
+  for (const equals of [exact, loose]) {
+    const maxDistance = Math.max(expected, lines.length - expected);
+    for (let distance = 0; distance <= maxDistance; distance++) {
+      for (const candidate of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+        if (candidate >= 0 && matchesAt(lines, needle, candidate, equals)) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function matchesAt(
+  lines: string[],
+  needle: string[],
+  position: number,
+  equals: (a: string, b: string) => boolean
+): boolean {
+  if (position + needle.length > lines.length) return false;
+  return needle.every((line, offset) => equals(lines[position + offset], line));
+}
+
+/**
+ * Apply search/replace blocks in order, each to the first occurrence of its
+ * search text in the content produced by the previous blocks.
+ */
+export function applySearchReplace(original: string, edits: SearchReplaceEdit[]): PatchApplyResult {
+  const failures: string[] = [];
+  let content = original;
+
+  edits.forEach((edit, index) => {
+    if (!edit.search) {
+      failures.push(`Edit ${index + 1} has an empty search block.`);
+      return;
+    }
+
+    let search = edit.search;
+    let replace = edit.replace;
+    if (!content.includes(search) && content.includes('\r\n')) {
+      // Models usually emit LF; retry against CRLF files with the file's line endings.
+      search = search.replace(/\r?\n/g, '\r\n');
+      replace = replace.replace(/\r?\n/g, '\r\n');
+    }
+
+    const at = content.indexOf(search);
+    if (at === -1) {
+      failures.push(`Edit ${index + 1} search block was not found in the current file.`);
+      return;
+    }
+
+    content = content.slice(0, at) + replace + content.slice(at + search.length);
+  });
+
+  return { content, failures };
+}
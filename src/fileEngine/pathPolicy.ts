@@ -0,0 +1,56 @@
+import { normalizeRelativePath } from './fileSystem.js';
+import { matchesAnyGlob } from './glob.js';
+
+/**
+ * Which project paths the engine may write, as gitignore-style globs: a pattern
+ * without a slash matches at any depth, a leading `/` anchors it to the root and
+ * a trailing `/` covers a whole directory.
+ */
+export interface PathPolicy {
+  /** Paths that may never be written. Added to the built-in defaults. */
+  deny?: string[];
+
+  /** Exceptions to `deny` (and to the defaults), e.g. `package-lock.json`. */
+  allow?: string[];
+
+  /** Apply DEFAULT_DENY_PATTERNS. Default: true. */
+  useDefaults?: boolean;
+}
+
+/** Paths no agent should touch unless the project explicitly allows it. */
+export const DEFAULT_DENY_PATTERNS = [
+  '.git/',
+  'node_modules/',
+  '.env',
+  '.env.*',
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lockb',
+  '.fluidignore',
+  '/fluid-agent.config.{json,yaml,yml}',
+];
+
+/**
+ * The deny rule that blocks writing `relativePath`, or undefined when it is allowed.
+ */
+export function findBlockingRule(relativePath: string, policy: PathPolicy = {}): string | undefined {
+  const normalized = normalizeRelativePath(relativePath);
+  const deny = [...(policy.useDefaults === false ? [] : DEFAULT_DENY_PATTERNS), ...(policy.deny ?? [])];
+
+  const rule = matchesAnyGlob(normalized, deny, { matchBase: true });
+  if (rule === undefined || matchesAnyGlob(normalized, policy.allow ?? [], { matchBase: true })) {
+    return undefined;
+  }
+  return rule;
+}
+
+/**
+ * Whether `relativePath` matches one of the task's write-scope globs. Patterns are
+ * anchored at the project root, like task `contextFiles`.
+ */
+export function isInWriteScope(relativePath: string, writeScope: string[]): boolean {
+  const normalized = normalizeRelativePath(relativePath);
+  return matchesAnyGlob(normalized, writeScope.map(normalizeRelativePath)) !== undefined;
+}
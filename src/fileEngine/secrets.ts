@@ -0,0 +1,95 @@
+import { matchesAnyGlob } from './glob.js';
+import type { SecretAllowlist, SecretFinding, SecretScanMode } from './types.js';
+
+export const SECRET_SCAN_MODES: ReadonlyArray<SecretScanMode> = ['block', 'warn', 'off'];
+
+export interface SecretRule {
+  name: string;
+
+  /** Global pattern; the secret is capture group 1 when there is one, the whole match otherwise. */
+  pattern: RegExp;
+
+  /** Extra check on the captured secret, to rule out placeholders and identifiers. */
+  accept?: (secret: string) => boolean;
+}
+
+/** Bits of entropy per character above which a value assigned to a key or token looks random. */
+const MIN_ENTROPY = 3.5;
+
+export const DEFAULT_SECRET_RULES: ReadonlyArray<SecretRule> = [
+  {
+    name: 'AWS access key ID',
+    pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[A-Z0-9]{16})\b/g,
+  },
+  {
+    // The whole BEGIN…END block, so a file that already holds one key still reports a new one.
+    name: 'private key',
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----(?:[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----)?/g,
+  },
+  {
+    name: 'JSON Web Token',
+    pattern: /\b(eyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,})/g,
+  },
+  {
+    // STRIPE_API_KEY = "...", "GITHUB_TOKEN": "...", AWS_SECRET_ACCESS_KEY=... in .env files. Only
+    // upper-case names: camelCase ones (cacheKey, primaryKey, sortKey) are ordinary identifiers.
+    name: 'high-entropy value assigned to a key or token',
+    pattern: /\b[A-Z0-9_]*_(?:KEY|TOKEN|SECRET)["']?\s*[:=]\s*["'`]?([A-Za-z0-9+/=_-]{16,})(?=["'`]|[\s,;)]|$)/gm,
+    accept: (secret) => /[0-9]/.test(secret) && /[A-Za-z]/.test(secret) && shannonEntropy(secret) >= MIN_ENTROPY,
+  },
+];
+
+/**
+ * Look for secrets in `content`. Secrets that already appear in `previous` (the
+ * file before the change) are not reported: only what the change introduces is.
+ */
+export function scanForSecrets(
+  filePath: string,
+  content: string,
+  options: { previous?: string | null; allowlist?: SecretAllowlist; rules?: ReadonlyArray<SecretRule> } = {}
+): SecretFinding[] {
+  const { previous, allowlist = {}, rules = DEFAULT_SECRET_RULES } = options;
+  if (allowlist.paths && matchesAnyGlob(filePath, allowlist.paths, { matchBase: true })) {
+    return [];
+  }
+
+  const allowed = (allowlist.values ?? []).map((value) => new RegExp(value));
+  const findings: SecretFinding[] = [];
+
+  for (const rule of rules) {
+    for (const match of content.matchAll(rule.pattern)) {
+      const secret = match[1] ?? match[0];
+      if (rule.accept && !rule.accept(secret)) continue;
+      if (previous?.includes(secret)) continue;
+      if (allowed.some((pattern) => pattern.test(secret))) continue;
+
+      const line = content.slice(0, match.index).split('\n').length;
+      const preview = `${secret.slice(0, 4)}…`;
+      // An AWS key assigned to API_KEY matches two rules; report it once.
+      if (findings.some((finding) => finding.line === line && finding.preview === preview)) continue;
+      findings.push({ rule: rule.name, line, preview });
+    }
+  }
+
+  return findings.sort((a, b) => a.line - b.line);
+}
+
+/** e.g. `AWS access key ID on line 3, private key on line 10` */
+export function describeSecretFindings(findings: SecretFinding[]): string {
+  return findings.map((finding) => `${finding.rule} on line ${finding.line}`).join(', ');
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
@@ -0,0 +1,222 @@
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import {
+  resolveProjectPathWith,
+  normalizeRelativePath,
+  readFileBufferIfExists,
+  writeFileSafe,
+  deleteFileSafe,
+} from './fileSystem.js';
+import { SnapshotError } from './errors.js';
+import { nodeFileSystem } from './fileSystemAdapter.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
+
+const MANIFEST_FILE = 'manifest.json';
+const FILES_DIR = 'files';
+
+export interface SnapshotEntry {
+  /** Project-relative path of the touched file. */
+  path: string;
+
+  /** Whether the file existed before the run touched it. */
+  existed: boolean;
+
+  /** sha256 of the file right after the run (null when the run left it absent). */
+  afterHash: string | null;
+
+  /** Permission bits of the file before the run, e.g. `0o755`; restored with it. */
+  mode?: number;
+}
+
+export interface SnapshotManifest {
+  version: 1;
+  rootDir: string;
+  createdAt: string;
+  entries: SnapshotEntry[];
+
+  /** Set once the snapshot has been restored. */
+  undoneAt?: string;
+}
+
+export type UndoFileStatus = 'restored' | 'removed' | 'unchanged' | 'modified-since-run';
+
+export interface UndoFileResult {
+  path: string;
+  status: UndoFileStatus;
+}
+
+export interface UndoSummary {
+  rootDir: string;
+  files: UndoFileResult[];
+
+  /** Files whose content changed after the run wrote them. */
+  modifiedSinceRun: string[];
+
+  /** True when nothing was restored because of `modifiedSinceRun` (and force was off). */
+  refused: boolean;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Records pre-change copies of files touched by a write run so the run can be undone.
+ *
+ * Layout under `snapshotDir`:
+ *   manifest.json        – SnapshotManifest
+ *   files/<relative path> – original bytes of files that existed before the run
+ *
+ * Both the project files and the snapshot are read and written through `adapter`.
+ */
+export class SnapshotRecorder {
+  private readonly entries = new Map<string, SnapshotEntry>();
+
+  constructor(
+    private readonly snapshotDir: string,
+    private readonly rootDir: string,
+    private readonly adapter: FileSystemAdapter = nodeFileSystem
+  ) {}
+
+  /** Save the original of `relativePath` unless it was already captured in this run. */
+  async capture(relativePath: string): Promise<void> {
+    const key = normalizeRelativePath(relativePath);
+    if (this.entries.has(key)) return;
+
+    const targetPath = await this.resolve(key);
+    const original = await readFileBufferIfExists(targetPath, this.adapter);
+    if (original === null) {
+      this.entries.set(key, { path: key, existed: false, afterHash: null });
+      return;
+    }
+
+    const { mode } = await this.adapter.stat(targetPath);
+    await writeFileSafe(path.join(this.snapshotDir, FILES_DIR, key), original, this.adapter);
+    this.entries.set(key, { path: key, existed: true, afterHash: null, mode });
+  }
+
+  /** Remember what the file looks like after the run wrote it. */
+  async recordAfter(relativePath: string): Promise<void> {
+    const key = normalizeRelativePath(relativePath);
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    const current = await readFileBufferIfExists(await this.resolve(key), this.adapter);
+    entry.afterHash = current === null ? null : hashContent(current);
+  }
+
+  async save(): Promise<SnapshotManifest> {
+    const manifest: SnapshotManifest = {
+      version: 1,
+      rootDir: path.resolve(this.rootDir),
+      createdAt: new Date().toISOString(),
+      entries: [...this.entries.values()],
+    };
+
+    await writeManifest(this.snapshotDir, manifest, this.adapter);
+    return manifest;
+  }
+
+  private resolve(relativePath: string): Promise<string> {
+    return resolveProjectPathWith(this.rootDir, relativePath, this.adapter);
+  }
+}
+
+async function writeManifest(
+  snapshotDir: string,
+  manifest: SnapshotManifest,
+  adapter: FileSystemAdapter
+): Promise<void> {
+  await writeFileSafe(path.join(snapshotDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), adapter);
+}
+
+export async function readSnapshotManifest(
+  snapshotDir: string,
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<SnapshotManifest | null> {
+  const raw = await readFileBufferIfExists(path.join(snapshotDir, MANIFEST_FILE), adapter);
+  if (raw === null) return null;
+
+  try {
+    return JSON.parse(raw.toString('utf8')) as SnapshotManifest;
+  } catch {
+    throw new SnapshotError(`Snapshot manifest is corrupted: ${path.join(snapshotDir, MANIFEST_FILE)}`);
+  }
+}
+
+export interface RestoreSnapshotOptions {
+  /** Restore even when files were edited after the run. Default: false. */
+  force?: boolean;
+
+  /** Override the root recorded in the manifest. */
+  rootDir?: string;
+
+  /** Filesystem holding the snapshot and the project. Default: the local disk. */
+  fileSystem?: FileSystemAdapter;
+}
+
+/**
+ * Restore every file captured in `snapshotDir` to its pre-run state.
+ *
+ * Files whose current content no longer matches what the run wrote are reported as
+ * `modified-since-run`; unless `force` is set, nothing is restored in that case.
+ */
+export async function restoreSnapshot(
+  snapshotDir: string,
+  options: RestoreSnapshotOptions = {}
+): Promise<UndoSummary> {
+  const { fileSystem = nodeFileSystem } = options;
+  const manifest = await readSnapshotManifest(snapshotDir, fileSystem);
+  if (!manifest) {
+    throw new SnapshotError(`No snapshot found in ${snapshotDir}`);
+  }
+  if (manifest.undoneAt && !options.force) {
+    throw new SnapshotError(`Snapshot was already restored at ${manifest.undoneAt}`);
+  }
+
+  const rootDir = options.rootDir ? path.resolve(options.rootDir) : manifest.rootDir;
+
+  const modified: string[] = [];
+  for (const entry of manifest.entries) {
+    const current = await readFileBufferIfExists(
+      await resolveProjectPathWith(rootDir, entry.path, fileSystem),
+      fileSystem
+    );
+    const currentHash = current === null ? null : hashContent(current);
+    if (currentHash !== entry.afterHash) {
+      modified.push(entry.path);
+    }
+  }
+
+  if (modified.length > 0 && !options.force) {
+    return {
+      rootDir,
+      modifiedSinceRun: modified,
+      refused: true,
+      files: manifest.entries.map((entry) => ({
+        path: entry.path,
+        status: modified.includes(entry.path) ? 'modified-since-run' : 'unchanged',
+      })),
+    };
+  }
+
+  const files: UndoFileResult[] = [];
+  for (const entry of [...manifest.entries].reverse()) {
+    const targetPath = await resolveProjectPathWith(rootDir, entry.path, fileSystem);
+
+    if (entry.existed) {
+      const original = await fileSystem.readFile(path.join(snapshotDir, FILES_DIR, entry.path)).catch(() => {
+        throw new SnapshotError(`Snapshot copy missing for ${entry.path}`);
+      });
+      await writeFileSafe(targetPath, original, fileSystem, entry.mode);
+      files.push({ path: entry.path, status: 'restored' });
+    } else {
+      await deleteFileSafe(targetPath, fileSystem);
+      files.push({ path: entry.path, status: 'removed' });
+    }
+  }
+
+  await writeManifest(snapshotDir, { ...manifest, undoneAt: new Date().toISOString() }, fileSystem);
+
+  return { rootDir, modifiedSinceRun: modified, refused: false, files: files.reverse() };
+}
@@ -0,0 +1,71 @@
+import type { FileEncoding } from './types.js';
+
+const BOM = '\uFEFF';
+
+export const FILE_ENCODINGS: ReadonlyArray<FileEncoding> = ['utf8', 'base64', 'latin1'];
+
+/** How far into a file binary detection looks, like git. */
+const BINARY_SNIFF_BYTES = 8000;
+
+export type LineEnding = 'lf' | 'crlf' | 'mixed' | 'none';
+
+export interface TextFormat {
+  eol: LineEnding;
+  bom: boolean;
+}
+
+export interface ConformResult {
+  content: string;
+
+  /** Human-readable notes about what was changed to match the existing file. */
+  normalizations: string[];
+}
+
+/**
+ * Whether `content` looks binary: a NUL byte near the start, the same heuristic git uses.
+ */
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+export function detectTextFormat(content: string): TextFormat {
+  const crlf = content.match(/\r\n/g)?.length ?? 0;
+  const lf = (content.match(/\n/g)?.length ?? 0) - crlf;
+
+  const eol: LineEnding = crlf === 0 && lf === 0 ? 'none' : crlf === 0 ? 'lf' : lf === 0 ? 'crlf' : 'mixed';
+  return { eol, bom: content.startsWith(BOM) };
+}
+
+/**
+ * Give `proposed` the line endings and BOM of the file it replaces, so a model
+ * that emits LF text does not rewrite every line of a CRLF file. Files with mixed
+ * line endings (either side) are left alone.
+ */
+export function conformToExisting(current: string | null, proposed: string): ConformResult {
+  if (current === null) {
+    return { content: proposed, normalizations: [] };
+  }
+
+  const existing = detectTextFormat(current);
+  const incoming = detectTextFormat(proposed);
+  const normalizations: string[] = [];
+  let content = proposed;
+
+  if (existing.bom && !incoming.bom) {
+    content = BOM + content;
+    normalizations.push('kept the UTF-8 BOM');
+  } else if (!existing.bom && incoming.bom) {
+    content = content.slice(BOM.length);
+    normalizations.push('dropped a UTF-8 BOM the file did not have');
+  }
+
+  if (existing.eol === 'crlf' && incoming.eol === 'lf') {
+    content = content.replace(/\n/g, '\r\n');
+    normalizations.push('kept CRLF line endings');
+  } else if (existing.eol === 'lf' && incoming.eol === 'crlf') {
+    content = content.replace(/\r\n/g, '\n');
+    normalizations.push('kept LF line endings');
+  }
+
+  return { content, normalizations };
+}
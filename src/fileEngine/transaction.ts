@@ -0,0 +1,99 @@
+import * as path from 'node:path';
+import { readFileBufferIfExists, writeFileSafe, deleteFileSafe } from './fileSystem.js';
+import { nodeFileSystem } from './fileSystemAdapter.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
+
+export interface FileBackup {
+  /** Absolute path of the file that may be touched. */
+  path: string;
+
+  /** Original bytes, or null when the file did not exist before the transaction. */
+  content: Buffer | null;
+
+  /** Topmost directory that did not exist yet and would be created by the write. */
+  missingDir?: string;
+}
+
+/**
+ * Capture the current state of every path a transaction is about to touch.
+ */
+export async function backupFiles(
+  filePaths: string[],
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<FileBackup[]> {
+  const backups: FileBackup[] = [];
+
+  for (const filePath of new Set(filePaths)) {
+    const content = await readFileBufferIfExists(filePath, adapter);
+    backups.push(
+      content === null
+        ? { path: filePath, content, missingDir: await findMissingDir(filePath, adapter) }
+        : { path: filePath, content }
+    );
+  }
+
+  return backups;
+}
+
+/**
+ * Put every backed-up path back to its original state, in reverse order.
+ * Returns the paths that were restored.
+ */
+export async function restoreBackups(
+  backups: FileBackup[],
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<string[]> {
+  const restored: string[] = [];
+
+  for (const backup of [...backups].reverse()) {
+    if (backup.content === null) {
+      await deleteFileSafe(backup.path, adapter);
+      if (backup.missingDir) {
+        await removeEmptyDirs(path.dirname(backup.path), path.dirname(backup.missingDir), adapter);
+      }
+    } else {
+      await writeFileSafe(backup.path, backup.content, adapter);
+    }
+    restored.push(backup.path);
+  }
+
+  return restored;
+}
+
+async function findMissingDir(filePath: string, adapter: FileSystemAdapter): Promise<string | undefined> {
+  let missing: string | undefined;
+  let dir = path.dirname(filePath);
+
+  while (dir !== path.dirname(dir)) {
+    try {
+      await adapter.stat(dir);
+      return missing;
+    } catch {
+      missing = dir;
+      dir = path.dirname(dir);
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Remove `dir` and its parents while they are empty, stopping at `stopAt`.
+ */
+export async function removeEmptyDirs(
+  dir: string,
+  stopAt: string,
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<void> {
+  let current = dir;
+
+  while (current !== stopAt && current.startsWith(stopAt + path.sep)) {
+    try {
+      await adapter.removeEmptyDirectory(current);
+    } catch {
+      // Not empty (or already gone) – nothing more to clean up above it either.
+      return;
+    }
+    current = path.dirname(current);
+  }
+}
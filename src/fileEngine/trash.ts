@@ -0,0 +1,236 @@
+import * as path from 'node:path';
+import {
+  resolveProjectPathWith,
+  normalizeRelativePath,
+  readFileBufferIfExists,
+  writeFileSafe,
+  deleteFileSafe,
+} from './fileSystem.js';
+import { removeEmptyDirs } from './transaction.js';
+import { TrashError } from './errors.js';
+import { nodeFileSystem } from './fileSystemAdapter.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
+
+const MANIFEST_FILE = 'manifest.json';
+const FILES_DIR = 'files';
+
+export interface TrashEntry {
+  /** Project-relative path the file was deleted from. */
+  path: string;
+
+  deletedAt: string;
+
+  /** Size in bytes. */
+  size: number;
+
+  /** Permission bits of the deleted file, e.g. `0o755`; restored with it. */
+  mode?: number;
+}
+
+export interface TrashManifest {
+  version: 1;
+  rootDir: string;
+  entries: TrashEntry[];
+}
+
+/**
+ * - `restored`: the file was put back and removed from the trash
+ * - `exists`: a file is already at that path (restore with `force` to overwrite it)
+ * - `not-in-trash`: the requested path was never trashed, or was already restored
+ */
+export type TrashRestoreStatus = 'restored' | 'exists' | 'not-in-trash';
+
+export interface TrashRestoreResult {
+  path: string;
+  status: TrashRestoreStatus;
+}
+
+export interface TrashRestoreSummary {
+  rootDir: string;
+  files: TrashRestoreResult[];
+}
+
+/**
+ * Keeps the files deleted by a write run instead of unlinking them.
+ *
+ * Layout under `trashDir`:
+ *   manifest.json         – TrashManifest
+ *   files/<relative path> – bytes of each deleted file
+ *
+ * Both the project files and the trash are read and written through `adapter`.
+ */
+export class TrashBin {
+  private readonly entries = new Map<string, TrashEntry>();
+
+  constructor(
+    private readonly trashDir: string,
+    private readonly rootDir: string,
+    private readonly adapter: FileSystemAdapter = nodeFileSystem
+  ) {}
+
+  /**
+   * Move `relativePath` into the trash. Returns false (and does nothing) when the
+   * file does not exist.
+   */
+  async discard(relativePath: string): Promise<boolean> {
+    const key = normalizeRelativePath(relativePath);
+    const targetPath = await resolveProjectPathWith(this.rootDir, key, this.adapter);
+    const content = await readFileBufferIfExists(targetPath, this.adapter);
+    if (content === null) return false;
+    const { mode } = await this.adapter.stat(targetPath);
+
+    // Copy, then delete: the trash may live on another device than the project.
+    await writeFileSafe(path.join(this.trashDir, FILES_DIR, key), content, this.adapter);
+    await deleteFileSafe(targetPath, this.adapter);
+
+    this.entries.set(key, { path: key, deletedAt: new Date().toISOString(), size: content.length, mode });
+    return true;
+  }
+
+  /** Remove the copies made so far, when the deletes were undone some other way (rollback). */
+  async abandon(): Promise<void> {
+    await removeTrashCopies(this.trashDir, [...this.entries.keys()], this.adapter);
+    this.entries.clear();
+  }
+
+  /** Write the manifest, keeping the entries of earlier saves. Does nothing when no file was trashed. */
+  async save(): Promise<TrashManifest | null> {
+    if (this.entries.size === 0) return null;
+
+    const existing = await readTrashManifest(this.trashDir, this.adapter);
+    const entries = new Map((existing?.entries ?? []).map((entry) => [entry.path, entry]));
+    for (const entry of this.entries.values()) {
+      entries.set(entry.path, entry);
+    }
+
+    const manifest: TrashManifest = { version: 1, rootDir: path.resolve(this.rootDir), entries: [...entries.values()] };
+    await writeManifest(this.trashDir, manifest, this.adapter);
+    return manifest;
+  }
+}
+
+async function writeManifest(trashDir: string, manifest: TrashManifest, adapter: FileSystemAdapter): Promise<void> {
+  await writeFileSafe(path.join(trashDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), adapter);
+}
+
+export async function readTrashManifest(
+  trashDir: string,
+  adapter: FileSystemAdapter = nodeFileSystem
+): Promise<TrashManifest | null> {
+  const raw = await readFileBufferIfExists(path.join(trashDir, MANIFEST_FILE), adapter);
+  if (raw === null) return null;
+
+  try {
+    return JSON.parse(raw.toString('utf8')) as TrashManifest;
+  } catch {
+    throw new TrashError(`Trash manifest is corrupted: ${path.join(trashDir, MANIFEST_FILE)}`);
+  }
+}
+
+export interface RestoreTrashOptions {
+  /** Project-relative paths to restore. Default: everything in the trash. */
+  paths?: string[];
+
+  /** Overwrite files that exist at the original path again. Default: false. */
+  force?: boolean;
+
+  /** Override the root recorded in the manifest. */
+  rootDir?: string;
+
+  /** Filesystem holding the trash and the project. Default: the local disk. */
+  fileSystem?: FileSystemAdapter;
+}
+
+/**
+ * Put trashed files back at their original path. Restored files leave the trash;
+ * files that would overwrite something are reported as `exists` and stay in it
+ * unless `force` is set.
+ */
+export async function restoreFromTrash(
+  trashDir: string,
+  options: RestoreTrashOptions = {}
+): Promise<TrashRestoreSummary> {
+  const { fileSystem = nodeFileSystem, force = false } = options;
+  const manifest = await readTrashManifest(trashDir, fileSystem);
+  if (!manifest) {
+    throw new TrashError(`No trash found in ${trashDir}`);
+  }
+
+  const rootDir = options.rootDir ? path.resolve(options.rootDir) : manifest.rootDir;
+  const requested = options.paths?.map(normalizeRelativePath) ?? manifest.entries.map((entry) => entry.path);
+  const files: TrashRestoreResult[] = [];
+  const restored: string[] = [];
+
+  for (const relativePath of requested) {
+    const entry = manifest.entries.find((candidate) => candidate.path === relativePath);
+    if (!entry) {
+      files.push({ path: relativePath, status: 'not-in-trash' });
+      continue;
+    }
+
+    const targetPath = await resolveProjectPathWith(rootDir, relativePath, fileSystem);
+    if (!force && (await readFileBufferIfExists(targetPath, fileSystem)) !== null) {
+      files.push({ path: relativePath, status: 'exists' });
+      continue;
+    }
+
+    const content = await fileSystem.readFile(path.join(trashDir, FILES_DIR, relativePath)).catch(() => {
+      throw new TrashError(`Trash copy missing for ${relativePath}`);
+    });
+    await writeFileSafe(targetPath, content, fileSystem, entry.mode);
+    restored.push(relativePath);
+    files.push({ path: relativePath, status: 'restored' });
+  }
+
+  await forgetTrashEntries(trashDir, restored, fileSystem);
+  return { rootDir, files };
+}
+
+/**
+ * Take `relativePaths` out of the trash without restoring them, for files put back
+ * some other way (e.g. undoing the run that deleted them). Returns the paths that
+ * were in the trash.
+ */
+export async function forgetTrashEntries(
+  trashDir: string,
+  relativePaths: string[],
+  fileSystem: FileSystemAdapter = nodeFileSystem
+): Promise<string[]> {
+  const manifest = await readTrashManifest(trashDir, fileSystem);
+  if (!manifest) return [];
+
+  const forget = new Set(relativePaths.map(normalizeRelativePath));
+  const forgotten = manifest.entries.map((entry) => entry.path).filter((entryPath) => forget.has(entryPath));
+  if (forgotten.length === 0) return [];
+
+  await removeTrashCopies(trashDir, forgotten, fileSystem);
+  await writeManifest(
+    trashDir,
+    { ...manifest, entries: manifest.entries.filter((entry) => !forget.has(entry.path)) },
+    fileSystem
+  );
+  return forgotten;
+}
+
+/**
+ * Permanently delete everything in `trashDir`. Returns the paths that were in it.
+ */
+export async function emptyTrash(trashDir: string, fileSystem: FileSystemAdapter = nodeFileSystem): Promise<string[]> {
+  const manifest = await readTrashManifest(trashDir, fileSystem);
+  if (!manifest) return [];
+
+  const paths = manifest.entries.map((entry) => entry.path);
+  await removeTrashCopies(trashDir, paths, fileSystem);
+  await deleteFileSafe(path.join(trashDir, MANIFEST_FILE), fileSystem);
+  await fileSystem.removeEmptyDirectory(trashDir).catch(() => undefined);
+  return paths;
+}
+
+async function removeTrashCopies(trashDir: string, relativePaths: string[], adapter: FileSystemAdapter): Promise<void> {
+  const filesDir = path.join(trashDir, FILES_DIR);
+  for (const relativePath of relativePaths) {
+    const copyPath = path.join(filesDir, relativePath);
+    await deleteFileSafe(copyPath, adapter);
+    await removeEmptyDirs(path.dirname(copyPath), trashDir, adapter);
+  }
+}
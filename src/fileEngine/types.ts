@@ -1,16 +1,227 @@
 import type { AgentFileChange } from '@digital-fluid/fluid-agent';
+import type { SearchReplaceEdit } from './patch.js';
+import type { PathPolicy } from './pathPolicy.js';
+import type { FileSystemAdapter } from './fileSystemAdapter.js';
 
-export type FileOperationStatus = 'created' | 'updated' | 'deleted' | 'skipped';
+export type FileChangeAction = AgentFileChange['action'] | 'rename' | 'move';
+
+/**
+ * How a change's `content` is encoded: `utf8` text (the default), `base64` for
+ * binary files (images, fonts, ...) or `latin1` for legacy single-byte text.
+ */
+export type FileEncoding = 'utf8' | 'base64' | 'latin1';
+
+/**
+ * A change as understood by the file engine: the agent's change plus the
+ * optional hunk-based shapes the engine can apply instead of full `content`,
+ * and the rename/move action.
+ */
+export interface FileChange extends Omit<AgentFileChange, 'action'> {
+  action: FileChangeAction;
+
+  /** Unified-diff hunks to apply against the current file (create/update/move). */
+  patch?: string;
+
+  /** Search/replace blocks to apply against the current file (create/update/move). */
+  edits?: SearchReplaceEdit[];
+
+  /** Source path for rename/move (defaults to `path`). */
+  from?: string;
+
+  /** Destination path for rename/move (defaults to `path`). */
+  to?: string;
+
+  /**
+   * Encoding of `content` (create/update). `base64` content is written as raw bytes
+   * and cannot carry a `patch` or `edits`. Default: `utf8`.
+   */
+  encoding?: FileEncoding;
+}
+
+/** Anything with a list of changes – an AgentResult or an engine-level change list. */
+export interface FileChangeSet {
+  files: FileChange[];
+}
+
+export type FileOperationStatus =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'moved'
+  | 'skipped'
+  | 'patch-failed'
+  | 'conflict'
+  | 'merged'
+  | 'merged-with-conflicts'
+  | 'blocked'
+  | 'out-of-scope'
+  | 'rejected'
+  | 'failed'
+  | 'invalid-content'
+  | 'secret-detected';
+
+/**
+ * Something about an operation that went through but may not be what the agent meant:
+ * - `created-over-existing`: a `create` replaced a file that already existed
+ * - `updated-missing-file`: an `update` targeted a file that did not exist, so it was created
+ * - `invalid-content`: the content failed validation but was written anyway (validation `warn`)
+ * - `secret-detected`: the content looks like it contains a secret but was written anyway (secret scan `warn`)
+ * - `not-validated`: the content could not be checked (e.g. `typescript` is not installed) and was written unchecked
+ */
+export type FileOperationWarning =
+  | 'created-over-existing'
+  | 'updated-missing-file'
+  | 'invalid-content'
+  | 'secret-detected'
+  | 'not-validated';
+
+/**
+ * State of a file at the moment the agent read it (task start).
+ */
+export interface FileBaseline {
+  /** sha256 of the file's bytes, or null when the file did not exist. */
+  hash: string | null;
+
+  /** Text the agent saw, used as the merge base when the file changed since. Omitted for binary files. */
+  content?: string;
+}
 
 export interface FileOperationResult {
   /** The original requested change from the agent. */
-  change: AgentFileChange;
+  change: FileChange;
 
-  /** Final status decided by the engine (created/updated/deleted/skipped). */
+  /** Final status decided by the engine (created/updated/deleted/skipped/...). */
   status: FileOperationStatus;
 
   /** Optional message explaining what happened. */
   message?: string;
+
+  /** Mismatches between the requested action and the files on disk. */
+  warnings?: FileOperationWarning[];
+
+  /** Unified diff between the on-disk file and the requested content (empty when unchanged). */
+  diff?: string;
+
+  /** Number of lines the change adds. */
+  linesAdded?: number;
+
+  /** Number of lines the change removes. */
+  linesRemoved?: number;
+
+  /**
+   * Full content written (or, in dry-run, that would be written) for create/update/merge/move,
+   * in the change's `encoding`.
+   */
+  proposedContent?: string;
+
+  /** The file is binary; `diff` only says that it changed. */
+  binary?: boolean;
+
+  /** Permission bits of a deleted file before the delete, e.g. `0o755`. */
+  deletedMode?: number;
+
+  /** Possible secrets found in the new content (secret scan `block` or `warn`). */
+  secrets?: SecretFinding[];
+}
+
+/**
+ * Answer to a review request: write the change, drop it, or write edited
+ * content instead of the agent's.
+ */
+export type ReviewDecision = 'accept' | 'reject' | { content: string };
+
+/**
+ * Upper bounds on what one apply may change. Unset limits are not checked.
+ */
+export interface ChangeLimits {
+  /** Distinct files created, updated, deleted or moved (both ends of a move count). */
+  maxFiles?: number;
+
+  /** Total bytes of content written, summed over all files. */
+  maxBytes?: number;
+
+  /** Files deleted. */
+  maxDeletes?: number;
+
+  /** Lines added plus lines removed in any single file. */
+  maxLinesPerFile?: number;
+}
+
+export interface ChangeLimitViolation {
+  limit: keyof ChangeLimits;
+  max: number;
+  actual: number;
+
+  /** The offending file, for per-file limits. */
+  path?: string;
+}
+
+/**
+ * Asked whether to go ahead with an apply that exceeds its limits; false aborts it.
+ */
+export type LimitConfirmation = (violations: ChangeLimitViolation[]) => Promise<boolean>;
+
+/**
+ * What to do with a create/update whose content fails validation: `block` it
+ * (status `invalid-content`, nothing written), write it with a `warn`ing, or
+ * skip validation (`off`).
+ */
+export type ContentValidationMode = 'block' | 'warn' | 'off';
+
+/** Returned by a validator that could not check the content, with the reason. */
+export interface ContentNotChecked {
+  notChecked: string;
+}
+
+/**
+ * Checks the new content of a file; returns a description of the problem, or
+ * undefined when the content is valid. `rootDir` is the project the file belongs to.
+ */
+export type ContentValidator = (
+  content: string,
+  filePath: string,
+  rootDir?: string
+) => string | ContentNotChecked | undefined | Promise<string | ContentNotChecked | undefined>;
+
+/**
+ * What to do with a create/update whose new content looks like it contains a
+ * secret: `block` it (status `secret-detected`, nothing written), write it with a
+ * `warn`ing, or skip the scan (`off`).
+ */
+export type SecretScanMode = 'block' | 'warn' | 'off';
+
+/**
+ * A possible secret in a file's new content. The secret itself is never kept:
+ * `preview` only shows its first characters.
+ */
+export interface SecretFinding {
+  /** Name of the rule that matched, e.g. `AWS access key ID`. */
+  rule: string;
+
+  /** 1-based line number. */
+  line: number;
+
+  preview: string;
+}
+
+/**
+ * Findings to ignore: `values` are regular expressions tested against the detected
+ * secret, `paths` are globs of files that are not scanned (fixtures, docs).
+ */
+export interface SecretAllowlist {
+  values?: string[];
+  paths?: string[];
+}
+
+/** Called with the staged (not yet written) result of each change that would write. */
+export type ReviewCallback = (operation: FileOperationResult) => Promise<ReviewDecision>;
+
+export interface ApplyRollback {
+  /** Error that aborted the transaction. */
+  reason: string;
+
+  /** Absolute paths that were restored. */
+  restored: string[];
 }
 
 export interface ApplyAgentResultSummary {
@@ -23,14 +234,15 @@ export interface ApplyAgentResultSummary {
   dryRun: boolean;
 
   /**
-   * Count summary for convenience.
+   * Present when a transactional apply failed part-way and every touched file
+   * was restored to its original state.
+   */
+  rollback?: ApplyRollback;
+
+  /**
+   * Count summary for convenience, one entry per status.
    */
-  counts: {
-    created: number;
-    updated: number;
-    deleted: number;
-    skipped: number;
-  };
+  counts: Record<FileOperationStatus, number>;
 }
 
 export interface ApplyAgentResultOptions {
@@ -40,6 +252,92 @@ export interface ApplyAgentResultOptions {
   /** When true, do not write to disk – only simulate operations. Default: false. */
   dryRun?: boolean;
 
+  /**
+   * When true (and not a dry-run), apply all operations or none: every change is
+   * staged first, original contents are backed up, and a failure restores them all.
+   * Default: false.
+   */
+  transactional?: boolean;
+
+  /**
+   * Context-time state of files, keyed by project-relative POSIX path. A target
+   * whose current content no longer matches its baseline is three-way merged
+   * (status `merged` or `merged-with-conflicts`); when no merge is possible it
+   * gets status `conflict` instead of being written.
+   */
+  baseline?: Record<string, FileBaseline>;
+
+  /** Write targets even when they changed since the baseline. Default: false. */
+  force?: boolean;
+
+  /**
+   * Protected paths. Changes touching a denied path get status `blocked` with the
+   * matching rule in the message. Default: the built-in DEFAULT_DENY_PATTERNS.
+   */
+  pathPolicy?: PathPolicy;
+
+  /**
+   * Globs (or literal paths) the run may write. Changes touching any other path
+   * get status `out-of-scope`. Default: no restriction.
+   */
+  writeScope?: string[];
+
+  /**
+   * Per-change approval in write mode. Every change that would write is staged and
+   * passed to `review` before anything is written; rejected changes get status
+   * `rejected`. Not called in dry-run.
+   */
+  review?: ReviewCallback;
+
+  /**
+   * Size limits for a write-mode apply. Every change is staged first; when the
+   * staged operations exceed a limit, nothing is written and ChangeLimitError is
+   * thrown unless `confirmLimits` approves. Not checked in dry-run.
+   */
+  limits?: ChangeLimits;
+
+  /** Called with the violations when `limits` are exceeded. Default: abort. */
+  confirmLimits?: LimitConfirmation;
+
+  /**
+   * Validate the content of creates and updates (after patches are applied) with
+   * the validator registered for the file's extension. Default: `off`.
+   */
+  validation?: ContentValidationMode;
+
+  /**
+   * Validators keyed by lower-case extension (e.g. `.json`), added to or replacing
+   * the built-in DEFAULT_VALIDATORS.
+   */
+  validators?: Record<string, ContentValidator>;
+
+  /**
+   * Scan the content of creates and updates for secrets (API keys, private keys,
+   * tokens) before writing it. Default: `off`.
+   */
+  secretScan?: SecretScanMode;
+
+  /** Findings the secret scan ignores. */
+  secretAllowlist?: SecretAllowlist;
+
+  /**
+   * Directory where pre-change copies of every touched file are saved in write mode,
+   * together with a manifest, so the run can be undone later.
+   */
+  snapshotDir?: string;
+
+  /**
+   * Directory where deleted files are moved in write mode (see TrashBin), so they
+   * can be restored later. Without it, deletes unlink the file.
+   */
+  trashDir?: string;
+
+  /**
+   * Where files are read and written, including backups and snapshots. Pass a
+   * MemoryFileSystem to apply changes to a virtual tree. Default: the local disk.
+   */
+  fileSystem?: FileSystemAdapter;
+
   /**
    * Optional logger for debug info.
    * If provided, the engine may call logger with textual messages.
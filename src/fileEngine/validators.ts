@@ -0,0 +1,216 @@
+import { createRequire } from 'node:module';
+import * as path from 'node:path';
+import * as YAML from 'yaml';
+import type { ContentNotChecked, ContentValidationMode, ContentValidator } from './types.js';
+
+export const CONTENT_VALIDATION_MODES: ReadonlyArray<ContentValidationMode> = ['block', 'warn', 'off'];
+
+/** Elements that never have a closing tag. */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/** Elements whose closing tag HTML lets authors leave out. */
+const OPTIONAL_END_TAGS = new Set([
+  'html',
+  'head',
+  'body',
+  'p',
+  'li',
+  'dt',
+  'dd',
+  'option',
+  'optgroup',
+  'colgroup',
+  'caption',
+  'thead',
+  'tbody',
+  'tfoot',
+  'tr',
+  'td',
+  'th',
+  'rt',
+  'rp',
+]);
+
+/** Elements whose content is text, not markup. */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+
+/** JSON files that by convention allow comments and trailing commas. */
+const JSONC_FILE = /(^|\/)([jt]sconfig[^/]*\.json|\.vscode\/[^/]+\.json)$/;
+
+/**
+ * Built-in validators, keyed by lower-case extension. Each returns a description
+ * of the first problem found, undefined when the content is fine, or
+ * `{ notChecked }` when it could not check it.
+ */
+export const DEFAULT_VALIDATORS: Readonly<Record<string, ContentValidator>> = {
+  '.json': validateJson,
+  '.yaml': validateYaml,
+  '.yml': validateYaml,
+  '.ts': validateScript,
+  '.tsx': validateScript,
+  '.mts': validateScript,
+  '.cts': validateScript,
+  '.js': validateScript,
+  '.jsx': validateScript,
+  '.mjs': validateScript,
+  '.cjs': validateScript,
+  '.html': validateHtml,
+  '.htm': validateHtml,
+};
+
+/**
+ * Run the validator registered for the extension of `filePath` (if any) on `content`.
+ * `rootDir` is the project the file belongs to; tools are looked up there first.
+ */
+export async function validateContent(
+  filePath: string,
+  content: string,
+  validators: Readonly<Record<string, ContentValidator>> = DEFAULT_VALIDATORS,
+  rootDir?: string
+): Promise<string | ContentNotChecked | undefined> {
+  const validator = validators[path.extname(filePath).toLowerCase()];
+  return validator ? await validator(content, filePath, rootDir) : undefined;
+}
+
+function validateJson(content: string, filePath: string): string | undefined {
+  if (JSONC_FILE.test(filePath.replace(/\\/g, '/'))) return undefined;
+  try {
+    JSON.parse(content);
+    return undefined;
+  } catch (error) {
+    return `invalid JSON: ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+function validateYaml(content: string): string | undefined {
+  const parsed = YAML.parseAllDocuments(content);
+  const documents = Array.isArray(parsed) ? parsed : [];
+  const error = documents.flatMap((document) => document.errors)[0];
+  return error ? `invalid YAML: ${error.message.split('\n')[0].replace(/:$/, '')}` : undefined;
+}
+
+type TypeScriptModule = typeof import('typescript');
+
+/** Loaded `typescript` packages, keyed by the project root they were resolved from. */
+const typescriptByRoot = new Map<string, Promise<TypeScriptModule | undefined>>();
+
+/**
+ * The `typescript` package of the project being edited, or else the one installed
+ * next to this package (it is only a dev dependency); undefined when neither is there.
+ */
+function loadTypeScript(rootDir: string | undefined): Promise<TypeScriptModule | undefined> {
+  const key = rootDir ? path.resolve(rootDir) : '';
+  let typescript = typescriptByRoot.get(key);
+  if (!typescript) {
+    typescript = Promise.resolve(requireFromProject(key)).then(
+      (module) => module ?? import('typescript').then(defaultExport, () => undefined)
+    );
+    typescriptByRoot.set(key, typescript);
+  }
+  return typescript;
+}
+
+function requireFromProject(rootDir: string): TypeScriptModule | undefined {
+  if (!rootDir) return undefined;
+  try {
+    return defaultExport(createRequire(path.join(rootDir, 'package.json'))('typescript'));
+  } catch {
+    return undefined;
+  }
+}
+
+function defaultExport(module: unknown): TypeScriptModule {
+  return ((module as { default?: TypeScriptModule }).default ?? module) as TypeScriptModule;
+}
+
+async function validateScript(
+  content: string,
+  filePath: string,
+  rootDir?: string
+): Promise<string | ContentNotChecked | undefined> {
+  const ts = await loadTypeScript(rootDir);
+  if (!ts) return { notChecked: 'the typescript package is not installed' };
+
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: path.basename(filePath),
+    reportDiagnostics: true,
+    compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve },
+  });
+  const error = diagnostics.find((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error);
+  if (!error) return undefined;
+
+  const message = ts.flattenDiagnosticMessageText(error.messageText, ' ');
+  if (error.file && error.start !== undefined) {
+    const { line } = error.file.getLineAndCharacterOfPosition(error.start);
+    return `syntax error on line ${line + 1}: ${message}`;
+  }
+  return `syntax error: ${message}`;
+}
+
+interface OpenElement {
+  name: string;
+  line: number;
+}
+
+/**
+ * Check that elements are properly nested and closed. Void elements, self-closing
+ * tags and closing tags HTML allows to omit (`</p>`, `</li>`, ...) are accepted.
+ */
+function validateHtml(content: string): string | undefined {
+  const tagPattern = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  const lineAt = (index: number) => content.slice(0, index).split('\n').length;
+  const stack: OpenElement[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(content))) {
+    const [token, closing, rawName, attributes] = match;
+    if (!rawName) {
+      if (token.startsWith('<!--') && !token.endsWith('-->')) {
+        return `invalid HTML: comment on line ${lineAt(match.index)} is never closed`;
+      }
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const line = lineAt(match.index);
+    if (VOID_ELEMENTS.has(name)) continue;
+
+    if (!closing) {
+      if (attributes.trimEnd().endsWith('/')) continue;
+      stack.push({ name, line });
+      if (RAW_TEXT_ELEMENTS.has(name)) {
+        const end = content.toLowerCase().indexOf(`</${name}`, tagPattern.lastIndex);
+        if (end === -1) return `invalid HTML: <${name}> on line ${line} is never closed`;
+        tagPattern.lastIndex = end;
+      }
+      continue;
+    }
+
+    const index = stack.map((element) => element.name).lastIndexOf(name);
+    if (index === -1) {
+      return `invalid HTML: unexpected </${name}> on line ${line}`;
+    }
+    const unclosed = stack.slice(index + 1).find((element) => !OPTIONAL_END_TAGS.has(element.name));
+    if (unclosed) {
+      return `invalid HTML: <${unclosed.name}> on line ${unclosed.line} is closed by </${name}> on line ${line}`;
+    }
+    stack.length = index;
+  }
+
+  const unclosed = stack.find((element) => !OPTIONAL_END_TAGS.has(element.name));
+  return unclosed ? `invalid HTML: <${unclosed.name}> on line ${unclosed.line} is never closed` : undefined;
+}
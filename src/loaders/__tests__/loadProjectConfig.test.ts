@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadProjectConfig, loadPathPolicy, parseFluidIgnore } from '../loadProjectConfig.js';
+
+// Mock fs module
+jest.mock('fs');
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+function mockFiles(files: Record<string, string>): void {
+  mockFs.existsSync.mockImplementation((filePath) => path.basename(String(filePath)) in files);
+  mockFs.readFileSync.mockImplementation(
+    ((filePath: fs.PathOrFileDescriptor) => files[path.basename(String(filePath))]) as typeof fs.readFileSync
+  );
+}
+
+describe('loadProjectConfig', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return an empty config when no config file exists', async () => {
+    mockFiles({});
+
+    await expect(loadProjectConfig('/project')).resolves.toEqual({});
+  });
+
+  it('should load a YAML config', async () => {
+    mockFiles({
+      'fluid-agent.config.yaml': `
+paths:
+  deny:
+    - secrets/
+  allow:
+    - package-lock.json
+`,
+    });
+
+    const config = await loadProjectConfig('/project');
+
+    expect(config.paths).toEqual({ deny: ['secrets/'], allow: ['package-lock.json'] });
+  });
+
+  it('should prefer the JSON config', async () => {
+    mockFiles({
+      'fluid-agent.config.json': JSON.stringify({ paths: { deny: ['a'] } }),
+      'fluid-agent.config.yaml': 'paths:\n  deny: [b]\n',
+    });
+
+    const config = await loadProjectConfig('/project');
+
+    expect(config.paths?.deny).toEqual(['a']);
+  });
+
+  it('should throw error for invalid JSON', async () => {
+    mockFiles({ 'fluid-agent.config.json': '{ invalid json }' });
+
+    await expect(loadProjectConfig('/project')).rejects.toThrow('Failed to parse fluid-agent.config.json');
+  });
+
+  it('should throw error for non-array path rules', async () => {
+    mockFiles({ 'fluid-agent.config.json': JSON.stringify({ paths: { deny: 'secrets/' } }) });
+
+    await expect(loadProjectConfig('/project')).rejects.toThrow('"paths.deny" must be an array of glob strings');
+  });
+
+  it('should throw error for a non-array verify list', async () => {
+    mockFiles({ 'fluid-agent.config.json': JSON.stringify({ verify: 'npm test' }) });
+
+    await expect(loadProjectConfig('/project')).rejects.toThrow('"verify" must be an array of shell commands');
+  });
+
+  it('should throw error for invalid or unknown limits', async () => {
+    mockFiles({ 'fluid-agent.config.json': JSON.stringify({ limits: { maxDeletes: -1 } }) });
+    await expect(loadProjectConfig('/project')).rejects.toThrow('"limits.maxDeletes" must be a non-negative integer');
+
+    mockFiles({ 'fluid-agent.config.json': JSON.stringify({ limits: { maxDelete: 1 } }) });
+    await expect(loadProjectConfig('/project')).rejects.toThrow('unknown limit "limits.maxDelete"');
+  });
+
+  it('should throw error for an invalid secrets section', async () => {
+    mockFiles({ 'fluid-agent.config.json': JSON.stringify({ secrets: { mode: 'ignore' } }) });
+    await expect(loadProjectConfig('/project')).rejects.toThrow('"secrets.mode" must be one of: block, warn, off');
+
+    mockFiles({ 'fluid-agent.config.json': JSON.stringify({ secrets: { allow: { values: ['AKIA('] } } }) });
+    await expect(loadProjectConfig('/project')).rejects.toThrow('invalid regular expression: AKIA(');
+  });
+});
+
+describe('parseFluidIgnore', () => {
+  it('should split deny and allow rules and skip comments', () => {
+    const rules = parseFluidIgnore('# generated\ndist/\n\n!dist/keep.txt\r\n*.pem\n');
+
+    expect(rules).toEqual({ deny: ['dist/', '*.pem'], allow: ['dist/keep.txt'] });
+  });
+});
+
+describe('loadPathPolicy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should combine config rules with .fluidignore', async () => {
+    mockFiles({
+      'fluid-agent.config.json': JSON.stringify({ paths: { deny: ['secrets/'], allow: ['yarn.lock'] } }),
+      '.fluidignore': 'dist/\n!package-lock.json\n',
+    });
+
+    const policy = await loadPathPolicy('/project');
+
+    expect(policy).toEqual({ deny: ['secrets/', 'dist/'], allow: ['yarn.lock', 'package-lock.json'] });
+  });
+});
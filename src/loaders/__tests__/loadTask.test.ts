@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { loadTask } from '../loadTask.js';
+import { loadTask, resolveWriteScope } from '../loadTask.js';
 import { TaskFile } from '../../types/cliTypes.js';
 
 // Mock fs module
@@ -125,6 +125,74 @@ contextFiles:
       await expect(loadTask('test.json')).rejects.toThrow('Task file must contain a "contextFiles" array');
     });
 
+    it('should accept a writeScope of contextFiles, any or globs', async () => {
+      for (const writeScope of ['contextFiles', 'any', ['src/**/*.ts']]) {
+        const taskData = { id: 'test-task', objective: 'Test objective', contextFiles: ['src/**/*.ts'], writeScope };
+
+        mockFs.existsSync.mockReturnValue(true);
+        mockFs.readFileSync.mockReturnValue(JSON.stringify(taskData));
+
+        const result = await loadTask('test.json');
+        expect(result.task.writeScope).toEqual(writeScope);
+      }
+    });
+
+    it('should throw error for an invalid writeScope', async () => {
+      const taskData = {
+        id: 'test-task',
+        objective: 'Test objective',
+        contextFiles: ['src/**/*.ts'],
+        writeScope: 'everything'
+      };
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(taskData));
+
+      await expect(loadTask('test.json')).rejects.toThrow('Task "writeScope" must be');
+    });
+
+    it('should throw error for a verify entry that is not a string', async () => {
+      const taskData = {
+        id: 'test-task',
+        objective: 'Test objective',
+        contextFiles: ['src/**/*.ts'],
+        verify: ['npm test', 42]
+      };
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(taskData));
+
+      await expect(loadTask('test.json')).rejects.toThrow('Task "verify" must be an array of shell commands');
+    });
+
+    it('should throw error for limits that are not non-negative integers', async () => {
+      const taskData = {
+        id: 'test-task',
+        objective: 'Test objective',
+        contextFiles: ['src/**/*.ts'],
+        limits: { maxFiles: 10, maxLinesPerFile: '500' }
+      };
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(taskData));
+
+      await expect(loadTask('test.json')).rejects.toThrow('Task "limits.maxLinesPerFile" must be a non-negative integer');
+    });
+
+    it('should throw error for an unknown validation mode', async () => {
+      const taskData = {
+        id: 'test-task',
+        objective: 'Test objective',
+        contextFiles: ['src/**/*.ts'],
+        validation: 'strict'
+      };
+
+      mockFs.existsSync.mockReturnValue(true);
+      mockFs.readFileSync.mockReturnValue(JSON.stringify(taskData));
+
+      await expect(loadTask('test.json')).rejects.toThrow('Task "validation" must be one of: block, warn, off');
+    });
+
     it('should throw error for non-array contextFiles', async () => {
       const taskData = {
         id: 'test-task',
@@ -138,4 +206,15 @@ contextFiles:
       await expect(loadTask('test.json')).rejects.toThrow('Task file must contain a "contextFiles" array');
     });
   });
+
+  describe('resolveWriteScope', () => {
+    it('should map writeScope to globs', () => {
+      const contextFiles = ['src/**/*.ts'];
+
+      expect(resolveWriteScope({ contextFiles })).toBeUndefined();
+      expect(resolveWriteScope({ contextFiles, writeScope: 'any' })).toBeUndefined();
+      expect(resolveWriteScope({ contextFiles, writeScope: 'contextFiles' })).toEqual(contextFiles);
+      expect(resolveWriteScope({ contextFiles, writeScope: ['docs/'] })).toEqual(['docs/']);
+    });
+  });
 });
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as YAML from 'yaml';
+import { CHANGE_LIMIT_KEYS } from '../fileEngine/limits.js';
+import { SECRET_SCAN_MODES } from '../fileEngine/secrets.js';
+import type { PathPolicy } from '../fileEngine/index.js';
+import { ProjectConfig } from '../types/cliTypes.js';
+
+export const PROJECT_CONFIG_FILES = ['fluid-agent.config.json', 'fluid-agent.config.yaml', 'fluid-agent.config.yml'];
+export const FLUIDIGNORE_FILE = '.fluidignore';
+
+/**
+ * Load the project config from `rootDir`, or an empty config when there is none.
+ */
+export async function loadProjectConfig(rootDir: string): Promise<ProjectConfig> {
+  const configName = PROJECT_CONFIG_FILES.find((name) => fs.existsSync(path.join(rootDir, name)));
+  if (!configName) {
+    return {};
+  }
+
+  const configPath = path.join(rootDir, configName);
+  const fileContent = fs.readFileSync(configPath, 'utf-8');
+
+  let configData: any;
+  try {
+    configData = configName.endsWith('.json') ? JSON.parse(fileContent) : YAML.parse(fileContent);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to parse ${configName}: ${reason}`);
+  }
+
+  if (configData === null || configData === undefined) {
+    return {};
+  }
+  if (typeof configData !== 'object' || Array.isArray(configData)) {
+    throw new Error(`${configName} must contain an object`);
+  }
+
+  for (const key of ['deny', 'allow']) {
+    const value = configData.paths?.[key];
+    if (value !== undefined && !isStringArray(value)) {
+      throw new Error(`${configName}: "paths.${key}" must be an array of glob strings`);
+    }
+  }
+
+  if (configData.verify !== undefined && !isStringArray(configData.verify)) {
+    throw new Error(`${configName}: "verify" must be an array of shell commands`);
+  }
+
+  validateChangeLimits(configData.limits, `${configName}:`);
+  validateSecretsConfig(configData.secrets, configName);
+
+  return configData as ProjectConfig;
+}
+
+function validateSecretsConfig(secrets: any, configName: string): void {
+  if (secrets === undefined) return;
+  if (secrets === null || typeof secrets !== 'object' || Array.isArray(secrets)) {
+    throw new Error(`${configName}: "secrets" must be an object`);
+  }
+  if (secrets.mode !== undefined && !SECRET_SCAN_MODES.includes(secrets.mode)) {
+    throw new Error(`${configName}: "secrets.mode" must be one of: ${SECRET_SCAN_MODES.join(', ')}`);
+  }
+
+  for (const key of ['values', 'paths']) {
+    const value = secrets.allow?.[key];
+    if (value !== undefined && !isStringArray(value)) {
+      throw new Error(`${configName}: "secrets.allow.${key}" must be an array of strings`);
+    }
+  }
+  for (const pattern of secrets.allow?.values ?? []) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(`${configName}: "secrets.allow.values" has an invalid regular expression: ${pattern}`);
+    }
+  }
+}
+
+/**
+ * Check a `limits` section (task or project config); `label` starts the error message.
+ */
+export function validateChangeLimits(limits: unknown, label: string): void {
+  if (limits === undefined) return;
+  if (limits === null || typeof limits !== 'object' || Array.isArray(limits)) {
+    throw new Error(`${label} "limits" must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(limits)) {
+    if (!(CHANGE_LIMIT_KEYS as readonly string[]).includes(key)) {
+      throw new Error(`${label} unknown limit "limits.${key}" (expected one of ${CHANGE_LIMIT_KEYS.join(', ')})`);
+    }
+    if (!Number.isInteger(value) || (value as number) < 0) {
+      throw new Error(`${label} "limits.${key}" must be a non-negative integer`);
+    }
+  }
+}
+
+/**
+ * Parse `.fluidignore`: one glob per line, `#` comments, `!pattern` re-allows a path.
+ */
+export function parseFluidIgnore(content: string): Required<Pick<PathPolicy, 'deny' | 'allow'>> {
+  const deny: string[] = [];
+  const allow: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    if (line.startsWith('!')) {
+      allow.push(line.slice(1));
+    } else {
+      deny.push(line);
+    }
+  }
+
+  return { deny, allow };
+}
+
+/**
+ * Combined path policy for a project: built-in defaults, the project config's
+ * `paths` section and `.fluidignore`.
+ */
+export async function loadPathPolicy(rootDir: string, config?: ProjectConfig): Promise<PathPolicy> {
+  const projectConfig = config ?? (await loadProjectConfig(rootDir));
+  const ignorePath = path.join(rootDir, FLUIDIGNORE_FILE);
+  const ignore = fs.existsSync(ignorePath)
+    ? parseFluidIgnore(fs.readFileSync(ignorePath, 'utf-8'))
+    : { deny: [], allow: [] };
+
+  return {
+    deny: [...(projectConfig.paths?.deny ?? []), ...ignore.deny],
+    allow: [...(projectConfig.paths?.allow ?? []), ...ignore.allow],
+  };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
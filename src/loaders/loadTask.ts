@@ -2,6 +2,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as YAML from 'yaml';
 import { TaskFile, LoadedTask } from '../types/cliTypes.js';
+import { validateChangeLimits } from './loadProjectConfig.js';
+import { CONTENT_VALIDATION_MODES } from '../fileEngine/validators.js';
 
 export async function loadTask(taskFilePath: string, options: { forceYaml?: boolean } = {}): Promise<LoadedTask> {
   const absolutePath = path.resolve(taskFilePath);
@@ -43,6 +45,20 @@ export async function loadTask(taskFilePath: string, options: { forceYaml?: bool
     throw new Error('Task file must contain a "contextFiles" array');
   }
 
+  if (taskData.writeScope !== undefined && !isValidWriteScope(taskData.writeScope)) {
+    throw new Error('Task "writeScope" must be "contextFiles", "any" or an array of glob strings');
+  }
+
+  if (taskData.verify !== undefined && !isStringArray(taskData.verify)) {
+    throw new Error('Task "verify" must be an array of shell commands');
+  }
+
+  validateChangeLimits(taskData.limits, 'Task');
+
+  if (taskData.validation !== undefined && !CONTENT_VALIDATION_MODES.includes(taskData.validation)) {
+    throw new Error(`Task "validation" must be one of: ${CONTENT_VALIDATION_MODES.join(', ')}`);
+  }
+
   const task: TaskFile = {
     id: taskData.id,
     objective: taskData.objective,
@@ -55,3 +71,19 @@ export async function loadTask(taskFilePath: string, options: { forceYaml?: bool
     filePath: absolutePath
   };
 }
+
+function isValidWriteScope(value: unknown): boolean {
+  return value === 'contextFiles' || value === 'any' || isStringArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+/**
+ * Globs the task may write, or undefined when it may write anywhere.
+ */
+export function resolveWriteScope(task: Pick<TaskFile, 'writeScope' | 'contextFiles'>): string[] | undefined {
+  if (task.writeScope === undefined || task.writeScope === 'any') return undefined;
+  return task.writeScope === 'contextFiles' ? task.contextFiles : task.writeScope;
+}
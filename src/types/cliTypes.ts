@@ -1,3 +1,5 @@
+import type { ChangeLimits, ContentValidationMode, SecretAllowlist, SecretScanMode } from '../fileEngine/index.js';
+
 export interface CLIOptions {
   root?: string;
   write?: boolean;
@@ -7,8 +9,26 @@ export interface CLIOptions {
   chat?: boolean;
   yaml?: boolean;
   yes?: boolean;
+  transactional?: boolean;
+  force?: boolean;
+  interactive?: boolean;
+  gitBranch?: string;
+  gitCommit?: boolean;
+  allowDirty?: boolean;
+  verifyTimeout?: string;
+  verify?: boolean;
+  fixAttempts?: string;
+  outputPatch?: string;
+  allowLargeChanges?: boolean;
+  staged?: boolean;
 }
 
+/**
+ * Files a task may write: only its `contextFiles`, an explicit list of globs, or
+ * anything under the root (`any`, the default).
+ */
+export type WriteScope = 'contextFiles' | 'any' | string[];
+
 export interface TaskFile {
   id: string;
   objective: string;
@@ -16,6 +36,12 @@ export interface TaskFile {
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  writeScope?: WriteScope;
+  verify?: string[];
+  limits?: ChangeLimits;
+
+  /** What to do with created/updated files whose content does not parse. Default: `warn`. */
+  validation?: ContentValidationMode;
   [key: string]: any;
 }
 
@@ -23,3 +49,28 @@ export interface LoadedTask {
   task: TaskFile;
   filePath: string;
 }
+
+/**
+ * Per-project settings read from fluid-agent.config.{json,yaml,yml} in the root.
+ */
+export interface ProjectConfig {
+  paths?: {
+    /** Globs the agent may never write (added to the built-in protected paths). */
+    deny?: string[];
+
+    /** Exceptions to the protected paths. */
+    allow?: string[];
+  };
+
+  /** Shell commands run in the root after every write-mode apply (before the task's own). */
+  verify?: string[];
+
+  /** Change-size limits for write runs; a task's own `limits` override these per key. */
+  limits?: ChangeLimits;
+
+  /** Secret scan of written content. Default mode: `warn`. */
+  secrets?: {
+    mode?: SecretScanMode;
+    allow?: SecretAllowlist;
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "@jest/globals";
+import { buildFixTask, parseFixAttempts } from "../../src/cli/fixAttempts.js";
+import type { FileOperationResult } from "../../src/fileEngine/index.js";
+import type { VerificationResult } from "../../src/cli/verify.js";
+
+const task = { id: "add-logging", objective: "Add logging to the API.\n", contextFiles: ["src/api.ts"] };
+
+function verification(command: string, exitCode: number | null, outputTail = "", timedOut = false): VerificationResult {
+  return { command, exitCode, timedOut, durationMs: 10, outputTail };
+}
+
+describe("buildFixTask", () => {
+  const operations: FileOperationResult[] = [
+    {
+      change: { path: "src/api.ts", action: "update" },
+      status: "updated",
+      diff: "--- a/src/api.ts\n+++ b/src/api.ts\n@@ -1 +1 @@\n-a\n+b\n",
+    },
+    { change: { path: "src/log.ts", action: "move", from: "src/logger.ts", to: "src/log.ts" }, status: "moved" },
+    { change: { path: "src/old.ts", action: "delete" }, status: "deleted" },
+    { change: { path: "src/skip.ts", action: "update" }, status: "rejected" },
+  ];
+
+  it("puts the failing commands and the applied changes after the original objective", () => {
+    const fixTask = buildFixTask(task, 1, 2, operations, [
+      verification("npm run lint", 0, "all good"),
+      verification("npm test", 1, "FAIL src/api.test.ts"),
+      verification("npm run e2e", null, "", true),
+    ]);
+
+    expect(fixTask.id).toBe("add-logging");
+    expect(fixTask.objective.split("\n\n")).toEqual([
+      "Add logging to the API.",
+      "## Fix attempt 1 of 2",
+      "Your previous changes were applied, but these verification commands failed:",
+      "### `npm test` (exit code 1)",
+      "```\nFAIL src/api.test.ts\n```",
+      "### `npm run e2e` (timed out)",
+      "```\n(no output)\n```",
+      "## Changes already applied",
+      "- updated: src/api.ts",
+      "```diff\n--- a/src/api.ts\n+++ b/src/api.ts\n@@ -1 +1 @@\n-a\n+b\n```",
+      "- moved: src/logger.ts -> src/log.ts",
+      "- deleted: src/old.ts",
+      expect.stringMatching(/^Make the changes needed so every verification command passes\./),
+    ]);
+    expect(fixTask.objective).not.toContain("all good");
+    expect(fixTask.objective).not.toContain("src/skip.ts");
+  });
+
+  it("adds the files that exist after the changes to the context", () => {
+    const fixTask = buildFixTask(task, 1, 1, operations, [verification("npm test", 1)]);
+
+    expect(fixTask.contextFiles).toEqual(["src/api.ts", "src/log.ts"]);
+  });
+
+  it("truncates long diffs", () => {
+    const diff = "+x\n".repeat(10_000);
+    const fixTask = buildFixTask(
+      task,
+      1,
+      1,
+      [{ change: { path: "big.txt", action: "create" }, status: "created", diff }],
+      [verification("npm test", 1)]
+    );
+
+    expect(fixTask.objective).toContain("... (diff truncated)");
+    expect(fixTask.objective.length).toBeLessThan(diff.length);
+  });
+});
+
+describe("parseFixAttempts", () => {
+  it("accepts non-negative integers and defaults to no attempts", () => {
+    expect(parseFixAttempts(undefined)).toBe(0);
+    expect(parseFixAttempts("2")).toBe(2);
+    expect(() => parseFixAttempts("-1")).toThrow("--fix-attempts must be a non-negative integer");
+    expect(() => parseFixAttempts("1.5")).toThrow("--fix-attempts must be a non-negative integer");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { buildCommitMessage, commitPaths, findDirtyPaths, isGitRepository } from "../../src/cli/git.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf8" });
+}
+
+describe("git helpers", () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), "fluid-agent-git-"));
+    git(repoDir, "init", "--quiet");
+    git(repoDir, "config", "user.email", "test@example.com");
+    git(repoDir, "config", "user.name", "Test");
+    await fs.mkdir(path.join(repoDir, "pkg"));
+    await fs.writeFile(path.join(repoDir, "pkg/a.txt"), "a\n");
+    await fs.writeFile(path.join(repoDir, "pkg/b.txt"), "b\n");
+    git(repoDir, "add", "--all");
+    git(repoDir, "commit", "--quiet", "-m", "initial");
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  describe("isGitRepository", () => {
+    it("is true inside a work tree and false elsewhere", async () => {
+      const outside = await fs.mkdtemp(path.join(os.tmpdir(), "fluid-agent-no-git-"));
+      try {
+        expect(await isGitRepository(path.join(repoDir, "pkg"))).toBe(true);
+        expect(await isGitRepository(outside)).toBe(false);
+      } finally {
+        await fs.rm(outside, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("findDirtyPaths", () => {
+    it("reports changed, untracked and deleted paths among the given ones", async () => {
+      await fs.writeFile(path.join(repoDir, "pkg/a.txt"), "changed\n");
+      await fs.rm(path.join(repoDir, "pkg/b.txt"));
+      await fs.writeFile(path.join(repoDir, "new.txt"), "new\n");
+      await fs.writeFile(path.join(repoDir, "other.txt"), "other\n");
+
+      expect((await findDirtyPaths(repoDir, ["pkg/a.txt", "pkg/b.txt", "new.txt"])).sort()).toEqual([
+        "new.txt",
+        "pkg/a.txt",
+        "pkg/b.txt",
+      ]);
+      expect(await findDirtyPaths(repoDir, [])).toEqual([]);
+    });
+
+    it("reports paths relative to a root below the repository top level", async () => {
+      const rootDir = path.join(repoDir, "pkg");
+      await fs.writeFile(path.join(rootDir, "a.txt"), "changed\n");
+      await fs.writeFile(path.join(rootDir, "new.txt"), "new\n");
+
+      expect(await findDirtyPaths(rootDir, ["a.txt", "b.txt", "new.txt"])).toEqual(["a.txt", "new.txt"]);
+    });
+  });
+
+  describe("commitPaths", () => {
+    it("commits only the given paths, leaving other changes alone", async () => {
+      await fs.writeFile(path.join(repoDir, "pkg/a.txt"), "changed\n");
+      await fs.rm(path.join(repoDir, "pkg/b.txt"));
+      await fs.writeFile(path.join(repoDir, "new.txt"), "new\n");
+      await fs.writeFile(path.join(repoDir, "other.txt"), "other\n");
+      git(repoDir, "add", "other.txt");
+
+      const hash = await commitPaths(repoDir, ["pkg/a.txt", "pkg/b.txt", "new.txt"], "task-1: change files");
+
+      expect(hash).toBe(git(repoDir, "rev-parse", "HEAD").trim());
+      expect(git(repoDir, "log", "-1", "--format=%s")).toBe("task-1: change files\n");
+      expect(git(repoDir, "show", "--name-status", "--format=", "HEAD")).toBe(
+        "A\tnew.txt\nM\tpkg/a.txt\nD\tpkg/b.txt\n"
+      );
+      expect(git(repoDir, "status", "--porcelain")).toBe("A  other.txt\n");
+    });
+
+    it("leaves out ignored paths", async () => {
+      await fs.writeFile(path.join(repoDir, ".gitignore"), "dist/\n");
+      git(repoDir, "add", ".gitignore");
+      git(repoDir, "commit", "--quiet", "-m", "ignore dist");
+      await fs.mkdir(path.join(repoDir, "dist"));
+      await fs.writeFile(path.join(repoDir, "dist/a.js"), "a\n");
+      await fs.writeFile(path.join(repoDir, "pkg/a.txt"), "changed\n");
+
+      expect(await commitPaths(repoDir, ["dist/a.js", "pkg/a.txt"], "build")).toBeDefined();
+      expect(git(repoDir, "show", "--name-only", "--format=", "HEAD")).toBe("pkg/a.txt\n");
+      expect(git(repoDir, "status", "--porcelain")).toBe("");
+    });
+
+    it("leaves out paths that are neither on disk nor tracked", async () => {
+      await fs.writeFile(path.join(repoDir, "new.txt"), "new\n");
+
+      expect(await commitPaths(repoDir, ["gone.txt", "new.txt"], "add new")).toBeDefined();
+      expect(git(repoDir, "show", "--name-only", "--format=", "HEAD")).toBe("new.txt\n");
+      expect(await commitPaths(repoDir, ["gone.txt"], "nothing")).toBeUndefined();
+    });
+
+    it("returns undefined when the paths have nothing to commit", async () => {
+      const head = git(repoDir, "rev-parse", "HEAD");
+
+      expect(await commitPaths(repoDir, ["pkg/a.txt"], "nothing")).toBeUndefined();
+      expect(await commitPaths(repoDir, [], "nothing")).toBeUndefined();
+      expect(git(repoDir, "rev-parse", "HEAD")).toBe(head);
+    });
+  });
+});
+
+describe("buildCommitMessage", () => {
+  it("uses the task id and a one-line objective as the subject", () => {
+    expect(buildCommitMessage("task-1", "  Add logging  ")).toBe("task-1: Add logging");
+  });
+
+  it("keeps the full objective in the body when it has more lines", () => {
+    expect(buildCommitMessage("task-1", "Add logging\nto every endpoint")).toBe(
+      "task-1: Add logging\n\nAdd logging\nto every endpoint"
+    );
+  });
+
+  it("truncates long subjects to 72 characters", () => {
+    const objective = `Refactor ${"the request handlers ".repeat(5)}`.trim();
+    const [subject, blank, body] = buildCommitMessage("task-1", objective).split("\n");
+
+    expect(subject).toHaveLength(72);
+    expect(subject).toMatch(/^task-1: Refactor the request handlers .*\.\.\.$/);
+    expect(blank).toBe("");
+    expect(body).toBe(objective);
+  });
+});
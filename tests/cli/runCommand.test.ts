@@ -0,0 +1,50 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { runCommand } from "../../src/cli/runCommand.js";
+
+const mockRunTask = jest.fn();
+
+jest.mock("@digital-fluid/fluid-agent", () => ({
+  runTask: (...args: unknown[]) => mockRunTask(...args),
+  buildPromptTask: (objective: string, taskType: string) => ({ id: "prompt", objective, taskType }),
+  llm: { getDefaultLLMClient: () => ({}) },
+  logging: {},
+}));
+
+describe("runCommand --interactive", () => {
+  let rootDir: string;
+  let isTTY: boolean | undefined;
+  let errors: string[];
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "fluid-agent-run-"));
+    isTTY = process.stdin.isTTY;
+    process.stdin.isTTY = false;
+    errors = [];
+    mockRunTask.mockReset();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.join(" "));
+    });
+    jest.spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`exit ${code}`);
+    });
+  });
+
+  afterEach(async () => {
+    process.stdin.isTTY = isTTY as boolean;
+    jest.restoreAllMocks();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("fails before calling the model when stdin is not a terminal", async () => {
+    await expect(runCommand(undefined, { prompt: "Add logging", interactive: true, root: rootDir })).rejects.toThrow(
+      "exit 1"
+    );
+
+    expect(mockRunTask).not.toHaveBeenCalled();
+    expect(errors).toContain("--interactive needs a terminal (stdin is not a TTY)");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, jest, beforeEach } from "@jest/globals";
+import type { logging } from "@digital-fluid/fluid-agent";
+import { fixAttemptLink } from "../../src/cli/fixAttempts.js";
+import { findRunChain, startCliRun } from "../../src/cli/runRecords.js";
+
+type TaskLogEntry = logging.TaskLogEntry;
+
+const mockCreateRun = jest.fn<(input: Record<string, unknown>) => Promise<TaskLogEntry>>();
+const mockGetRunById = jest.fn<(id: string) => Promise<TaskLogEntry | null>>();
+const mockQueryRuns = jest.fn<(query: unknown) => Promise<TaskLogEntry[]>>();
+
+jest.mock("@digital-fluid/fluid-agent", () => ({
+  logging: {
+    createRun: (input: Record<string, unknown>) => mockCreateRun(input),
+    markRunStarted: async () => undefined,
+    prepareArtifactsDir: async (id: string) => `/logs/${id}`,
+    hashSpec: () => "spec-hash",
+    getRunById: (id: string) => mockGetRunById(id),
+    queryRuns: (query: unknown) => mockQueryRuns(query),
+  },
+}));
+
+function run(id: string, previousRunId?: string, attemptNumber = 1): TaskLogEntry {
+  return {
+    id,
+    taskId: "add-logging",
+    runType: "execution-run",
+    status: "completed",
+    attemptNumber,
+    agentVersion: "1.0.0",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    specHash: "spec-hash",
+    previousRunId,
+  };
+}
+
+describe("fix attempt runs", () => {
+  const task = { id: "add-logging", objective: "Add logging" };
+
+  beforeEach(() => {
+    mockCreateRun.mockReset();
+    mockCreateRun.mockImplementation(async (input) => ({ ...run(`run-${mockCreateRun.mock.calls.length}`), ...input }));
+  });
+
+  it("links each attempt to the run before it", async () => {
+    const first = await startCliRun(task, fixAttemptLink(undefined, 0));
+    const second = await startCliRun(task, fixAttemptLink(first, 1));
+    await startCliRun(task, fixAttemptLink(second, 2));
+
+    expect(first).toEqual({ id: "run-1", artifactsDir: "/logs/run-1" });
+    expect(mockCreateRun.mock.calls.map(([input]) => [input.previousRunId, input.attemptNumber])).toEqual([
+      [undefined, undefined],
+      ["run-1", 2],
+      ["run-2", 3],
+    ]);
+  });
+
+  it("finds the whole chain from any of its runs", async () => {
+    const runs = [run("run-1"), run("run-2", "run-1", 2), run("run-3", "run-2", 3), run("other")];
+    mockGetRunById.mockImplementation(async (id) => runs.find((candidate) => candidate.id === id) ?? null);
+    mockQueryRuns.mockResolvedValue([...runs].reverse());
+
+    expect((await findRunChain(runs[1])).map((entry) => entry.id)).toEqual(["run-1", "run-2", "run-3"]);
+    expect((await findRunChain(runs[3])).map((entry) => entry.id)).toEqual(["other"]);
+  });
+});
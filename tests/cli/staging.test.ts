@@ -0,0 +1,149 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from "@jest/globals";
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { applyAgentResult, captureBaseline } from "../../src/fileEngine/index.js";
+import type { FileChange } from "../../src/fileEngine/index.js";
+import { createStagingCopy, promotableChanges } from "../../src/cli/staging.js";
+import type { StagingCopy } from "../../src/cli/staging.js";
+import { promoteStagedAttempts } from "../../src/cli/runCommand.js";
+import type { StagedAttempt } from "../../src/cli/runCommand.js";
+
+jest.mock("@digital-fluid/fluid-agent", () => ({ logging: {}, llm: {} }));
+
+describe("staging", () => {
+  let rootDir: string;
+  let staging: StagingCopy | undefined;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "fluid-agent-root-"));
+    await fs.mkdir(path.join(rootDir, ".git"));
+    await fs.writeFile(path.join(rootDir, ".git/HEAD"), "ref: refs/heads/main\n");
+    await fs.mkdir(path.join(rootDir, "node_modules/dep"), { recursive: true });
+    await fs.writeFile(path.join(rootDir, "node_modules/dep/index.js"), "module.exports = 1;\n");
+    await fs.mkdir(path.join(rootDir, "src"));
+    await fs.writeFile(path.join(rootDir, "src/a.ts"), "export const a = 1;\n");
+    staging = undefined;
+  });
+
+  afterEach(async () => {
+    await staging?.dispose();
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe("createStagingCopy", () => {
+    it("copies the project without .git and links node_modules", async () => {
+      staging = await createStagingCopy(rootDir);
+
+      expect(await fs.readFile(path.join(staging.dir, "src/a.ts"), "utf8")).toBe("export const a = 1;\n");
+      await expect(fs.access(path.join(staging.dir, ".git"))).rejects.toThrow();
+      expect((await fs.lstat(path.join(staging.dir, "node_modules"))).isSymbolicLink()).toBe(true);
+      expect(await fs.readlink(path.join(staging.dir, "node_modules"))).toBe(path.join(rootDir, "node_modules"));
+
+      await staging.dispose();
+      await expect(fs.access(staging.dir)).rejects.toThrow();
+    });
+
+    it("removes the partial copy when copying fails", async () => {
+      // fs.cp cannot copy FIFOs.
+      execFileSync("mkfifo", [path.join(rootDir, "src/pipe")]);
+      const stagedDirs = async () =>
+        (await fs.readdir(os.tmpdir())).filter((name) => name.startsWith("fluid-agent-staged-"));
+      const before = await stagedDirs();
+
+      await expect(createStagingCopy(rootDir)).rejects.toThrow(`Could not create the staging copy of ${rootDir}`);
+      expect(await stagedDirs()).toEqual(before);
+    });
+  });
+
+  describe("promotableChanges", () => {
+    it("replays what was written, with patches and edits resolved to content", async () => {
+      const summary = await applyAgentResult(
+        {
+          files: [
+            { path: "src/a.ts", action: "update", edits: [{ search: "a = 1", replace: "a = 2" }] },
+            { path: "src/b.ts", action: "create", content: "export const b = 1;\n" },
+            { path: "src/missing.ts", action: "update", edits: [{ search: "x", replace: "y" }] },
+            { path: "src/a.ts", action: "noop" },
+          ],
+        },
+        { rootDir, dryRun: true }
+      );
+
+      expect(promotableChanges(summary.operations)).toEqual([
+        { path: "src/a.ts", action: "update", content: "export const a = 2;\n", patch: undefined, edits: undefined },
+        { path: "src/b.ts", action: "create", content: "export const b = 1;\n", patch: undefined, edits: undefined },
+      ]);
+    });
+  });
+
+  describe("promoteStagedAttempts", () => {
+    beforeEach(() => {
+      jest.spyOn(console, "log").mockImplementation(() => undefined);
+      jest.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    async function stageAttempt(dir: string, files: FileChange[]): Promise<StagedAttempt> {
+      const baseline = await captureBaseline(dir, files.map((change) => change.path));
+      const summary = await applyAgentResult({ files }, { rootDir: dir });
+      return { cliRun: undefined, changes: promotableChanges(summary.operations), baseline };
+    }
+
+    it("replays every attempt in the real root, in order", async () => {
+      staging = await createStagingCopy(rootDir);
+      const attempts = [
+        await stageAttempt(staging.dir, [
+          { path: "src/a.ts", action: "update", edits: [{ search: "a = 1", replace: "a = 2" }] },
+          { path: "src/b.ts", action: "create", content: "export const b = 1;\n" },
+        ]),
+        await stageAttempt(staging.dir, [
+          { path: "src/a.ts", action: "update", edits: [{ search: "a = 2", replace: "a = 3" }] },
+          { path: "src/b.ts", action: "delete" },
+        ]),
+      ];
+
+      const promoted = await promoteStagedAttempts(attempts, {
+        rootDir,
+        logger: () => undefined,
+        pathPolicy: {},
+        writeScope: undefined,
+      });
+
+      expect(promoted).toEqual({ writtenPaths: ["src/a.ts", "src/b.ts"], rolledBack: false });
+      expect(await fs.readFile(path.join(rootDir, "src/a.ts"), "utf8")).toBe("export const a = 3;\n");
+      await expect(fs.access(path.join(rootDir, "src/b.ts"))).rejects.toThrow();
+    });
+
+    it("stops at the first attempt that rolls back", async () => {
+      await fs.writeFile(path.join(rootDir, "blocker"), "file\n");
+      const attempts: StagedAttempt[] = [
+        {
+          cliRun: undefined,
+          changes: [
+            { path: "src/a.ts", action: "update", content: "export const a = 2;\n" },
+            { path: "blocker/c.ts", action: "create", content: "c\n" },
+          ],
+          baseline: {},
+        },
+        { cliRun: undefined, changes: [{ path: "src/d.ts", action: "create", content: "d\n" }], baseline: {} },
+      ];
+
+      const promoted = await promoteStagedAttempts(attempts, {
+        rootDir,
+        logger: () => undefined,
+        transactional: true,
+        pathPolicy: {},
+        writeScope: undefined,
+      });
+
+      expect(promoted.rolledBack).toBe(true);
+      expect(await fs.readFile(path.join(rootDir, "src/a.ts"), "utf8")).toBe("export const a = 1;\n");
+      await expect(fs.access(path.join(rootDir, "src/d.ts"))).rejects.toThrow();
+    });
+  });
+});
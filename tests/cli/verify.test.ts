@@ -0,0 +1,38 @@
+import { describe, it, expect } from "@jest/globals";
+import * as os from "node:os";
+import { runVerification, verificationPassed } from "../../src/cli/verify.js";
+
+describe("runVerification", () => {
+  const rootDir = os.tmpdir();
+
+  it("reports each command's exit code and runs every command", async () => {
+    const results = await runVerification(rootDir, ["exit 3", "true"]);
+
+    expect(results.map((result) => [result.command, result.exitCode, result.timedOut])).toEqual([
+      ["exit 3", 3, false],
+      ["true", 0, false],
+    ]);
+    expect(results.map(verificationPassed)).toEqual([false, true]);
+  });
+
+  it("keeps the last lines of stdout and stderr", async () => {
+    const [result] = await runVerification(rootDir, ["i=1; while [ $i -le 50 ]; do echo line $i; i=$((i + 1)); done"]);
+    const lines = result.outputTail.split("\n");
+
+    expect(lines).toHaveLength(30);
+    expect(lines[0]).toBe("line 21");
+    expect(lines[29]).toBe("line 50");
+
+    const [failed] = await runVerification(rootDir, ["echo out; echo err >&2; exit 1"]);
+    expect(failed.outputTail.split("\n").sort()).toEqual(["err", "out"]);
+  });
+
+  it("stops a command and what it started when it times out", async () => {
+    const [result] = await runVerification(rootDir, ["sleep 30 & sleep 30; wait"], { timeoutMs: 200 });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBeNull();
+    expect(result.durationMs).toBeLessThan(5000);
+    expect(verificationPassed(result)).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult, findStalePaths } from '../../src/fileEngine/apply.js';
+import { captureBaseline } from '../../src/fileEngine/baseline.js';
+import { matchesGlob } from '../../src/fileEngine/glob.js';
+
+describe('applyAgentResult - files changed since the baseline', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-conflict-'));
+    await fs.mkdir(path.join(tempDir, 'src'));
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'export const a = 1;\n');
+    await fs.writeFile(path.join(tempDir, 'src', 'b.ts'), 'export const b = 1;\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('captures hashes for globbed and literal context files', async () => {
+    const baseline = await captureBaseline(tempDir, ['src/**/*.ts', 'README.md']);
+
+    expect(Object.keys(baseline).sort()).toEqual(['README.md', 'src/a.ts', 'src/b.ts']);
+    expect(baseline['README.md'].hash).toBeNull();
+    expect(baseline['src/a.ts'].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('finds files whose content, or existence, changed since the baseline', async () => {
+    const baseline = await captureBaseline(tempDir, ['src/a.ts', 'src/b.ts', 'src/new.ts']);
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'export const a = 2;\n');
+    await fs.writeFile(path.join(tempDir, 'src', 'new.ts'), 'export {};\n');
+
+    const stale = await findStalePaths(['src/a.ts', 'src/b.ts', 'src/new.ts', 'src/untracked.ts'], tempDir, baseline);
+
+    expect(stale).toEqual(['src/a.ts', 'src/new.ts']);
+  });
+
+  it('merges non-overlapping edits made on disk after the baseline', async () => {
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'one\ntwo\nthree\nfour\nfive\n');
+    const baseline = await captureBaseline(tempDir, ['src/*.ts']);
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'ONE\ntwo\nthree\nfour\nfive\n');
+
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'src/a.ts', action: 'update', content: 'one\ntwo\nthree\nfour\nFIVE\n' },
+          { path: 'src/b.ts', action: 'update', content: 'export const b = 3;\n' },
+        ],
+      },
+      { rootDir: tempDir, dryRun: false, baseline }
+    );
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['merged', 'updated']);
+    expect(summary.counts.merged).toBe(1);
+    expect(await fs.readFile(path.join(tempDir, 'src', 'a.ts'), 'utf8')).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+  });
+
+  it('writes conflict markers when both sides edited the same lines', async () => {
+    const baseline = await captureBaseline(tempDir, ['src/*.ts']);
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'export const a = 2; // edited by hand\n');
+
+    const summary = await applyAgentResult(
+      { files: [{ path: 'src/a.ts', action: 'update', content: 'export const a = 3;\n' }] },
+      { rootDir: tempDir, dryRun: false, baseline }
+    );
+
+    expect(summary.operations[0].status).toBe('merged-with-conflicts');
+    expect(await fs.readFile(path.join(tempDir, 'src', 'a.ts'), 'utf8')).toBe(
+      [
+        '<<<<<<< current',
+        'export const a = 2; // edited by hand',
+        '=======',
+        'export const a = 3;',
+        '>>>>>>> agent',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('applies patches against the baseline the agent saw', async () => {
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'a\nb\nc\nd\ne\nf\n');
+    const baseline = await captureBaseline(tempDir, ['src/a.ts']);
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'new first line\na\nb\nc\nd\ne\nf\n');
+
+    const summary = await applyAgentResult(
+      { files: [{ path: 'src/a.ts', action: 'update', patch: '@@ -5,2 +5,2 @@\n e\n-f\n+F\n' }] },
+      { rootDir: tempDir, dryRun: false, baseline }
+    );
+
+    expect(summary.operations[0].status).toBe('merged');
+    expect(await fs.readFile(path.join(tempDir, 'src', 'a.ts'), 'utf8')).toBe('new first line\na\nb\nc\nd\ne\nF\n');
+  });
+
+  it('reports a conflict for deletes of files edited since the baseline', async () => {
+    const baseline = await captureBaseline(tempDir, ['src/a.ts']);
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'edited\n');
+
+    const summary = await applyAgentResult(
+      { files: [{ path: 'src/a.ts', action: 'delete' }] },
+      { rootDir: tempDir, dryRun: false, baseline }
+    );
+
+    expect(summary.operations[0].status).toBe('conflict');
+    expect(await fs.readFile(path.join(tempDir, 'src', 'a.ts'), 'utf8')).toBe('edited\n');
+  });
+
+  it('reports a conflict when the file was deleted after the baseline', async () => {
+    const baseline = await captureBaseline(tempDir, ['src/a.ts']);
+    await fs.rm(path.join(tempDir, 'src', 'a.ts'));
+
+    const summary = await applyAgentResult(
+      { files: [{ path: 'src/a.ts', action: 'update', content: 'agent\n' }] },
+      { rootDir: tempDir, dryRun: false, baseline }
+    );
+
+    expect(summary.operations[0].status).toBe('conflict');
+    await expect(fs.access(path.join(tempDir, 'src', 'a.ts'))).rejects.toThrow();
+  });
+
+  it('writes stale files when force is set', async () => {
+    const baseline = await captureBaseline(tempDir, ['src/a.ts']);
+    await fs.writeFile(path.join(tempDir, 'src', 'a.ts'), 'edited\n');
+
+    const summary = await applyAgentResult(
+      { files: [{ path: './src/a.ts', action: 'update', content: 'agent\n' }] },
+      { rootDir: tempDir, dryRun: false, baseline, force: true }
+    );
+
+    expect(summary.operations[0].status).toBe('updated');
+    expect(await fs.readFile(path.join(tempDir, 'src', 'a.ts'), 'utf8')).toBe('agent\n');
+  });
+
+  it('aborts a transactional apply before writing anything', async () => {
+    const baseline = await captureBaseline(tempDir, ['src/*.ts']);
+    await fs.writeFile(path.join(tempDir, 'src', 'b.ts'), 'edited\n');
+
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'src/a.ts', action: 'update', content: 'agent a\n' },
+          { path: 'src/b.ts', action: 'delete' },
+        ],
+      },
+      { rootDir: tempDir, dryRun: false, transactional: true, baseline }
+    );
+
+    expect(summary.rollback?.reason).toContain('src/b.ts');
+    expect(await fs.readFile(path.join(tempDir, 'src', 'a.ts'), 'utf8')).toBe('export const a = 1;\n');
+  });
+});
+
+describe('matchesGlob', () => {
+  it.each([
+    ['src/a.ts', 'src/**/*.ts', true],
+    ['src/deep/b.ts', 'src/**/*.ts', true],
+    ['src/a.js', 'src/**/*.ts', false],
+    ['src/a.ts', '*.ts', false],
+    ['config/.env', '.env', false],
+    ['lib/x.md', '{src,lib}/*.md', true],
+  ])('%s against %s -> %s', (filePath, pattern, expected) => {
+    expect(matchesGlob(filePath, pattern)).toBe(expected);
+  });
+
+  it('matches file names at any depth with matchBase', () => {
+    expect(matchesGlob('config/.env', '.env', { matchBase: true })).toBe(true);
+  });
+});
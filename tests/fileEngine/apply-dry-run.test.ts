@@ -63,9 +63,11 @@ describe('applyAgentResult - dry-run mode', () => {
       dryRun: true,
     });
 
-    expect(summary.operations[0].status).toBe('updated');
+    // The file does not exist, so the update is reported as the create it would be
+    expect(summary.operations[0].status).toBe('created');
+    expect(summary.operations[0].warnings).toEqual(['updated-missing-file']);
     expect(summary.operations[0].message).toContain('Dry-run');
-    expect(summary.counts.updated).toBe(1);
+    expect(summary.counts.created).toBe(1);
 
     // Verify file was NOT created
     const filePath = path.join(tempDir, 'update-file.txt');
@@ -121,6 +123,7 @@ describe('applyAgentResult - dry-run mode', () => {
   });
 
   it('processes multiple files in dry-run mode', async () => {
+    await fs.writeFile(path.join(tempDir, 'file3.txt'), 'content3');
     const agentResult: AgentResult = {
       files: [
         { path: 'file1.txt', action: 'create', content: 'content1' },
@@ -136,18 +139,20 @@ describe('applyAgentResult - dry-run mode', () => {
     });
 
     expect(summary.operations).toHaveLength(4);
-    expect(summary.counts.created).toBe(1);
-    expect(summary.counts.updated).toBe(1);
+    // file2.txt does not exist, so its update counts as a create
+    expect(summary.counts.created).toBe(2);
+    expect(summary.counts.updated).toBe(0);
     expect(summary.counts.deleted).toBe(1);
     expect(summary.counts.skipped).toBe(1);
 
-    // Verify NO files were created
+    // Verify NO files were created or deleted
     const files = await fs.readdir(tempDir);
-    expect(files).toEqual([]);
+    expect(files).toEqual(['file3.txt']);
   });
 
   it('calls logger with correct messages in dry-run mode', async () => {
     const logger = jest.fn();
+    await fs.writeFile(path.join(tempDir, 'delete.txt'), 'delete me');
 
     const agentResult: AgentResult = {
       files: [
@@ -166,7 +171,7 @@ describe('applyAgentResult - dry-run mode', () => {
 
     expect(logger).toHaveBeenCalledTimes(4);
     expect(logger).toHaveBeenCalledWith('CREATE: create.txt');
-    expect(logger).toHaveBeenCalledWith('UPDATE: update.txt');
+    expect(logger).toHaveBeenCalledWith('CREATE: update.txt (updated-missing-file)');
     expect(logger).toHaveBeenCalledWith('DELETE: delete.txt');
     expect(logger).toHaveBeenCalledWith('SKIP (noop): noop.txt');
   });
@@ -279,4 +284,36 @@ describe('applyAgentResult - dry-run mode', () => {
       note: 'This is a test file',
     });
   });
+
+  it('attaches a unified diff against the on-disk file', async () => {
+    await fs.writeFile(path.join(tempDir, 'greeting.txt'), 'hello\nworld\n');
+
+    const agentResult: AgentResult = {
+      files: [{ path: 'greeting.txt', action: 'update', content: 'hello\nthere\n' }],
+    };
+
+    const summary = await applyAgentResult(agentResult, {
+      rootDir: tempDir,
+      dryRun: true,
+    });
+
+    const [op] = summary.operations;
+    expect(op.diff).toContain('--- a/greeting.txt');
+    expect(op.diff).toContain('-world');
+    expect(op.diff).toContain('+there');
+    expect(op.linesAdded).toBe(1);
+    expect(op.linesRemoved).toBe(1);
+  });
+
+  it('diffs deletes against the current content', async () => {
+    await fs.writeFile(path.join(tempDir, 'gone.txt'), 'a\nb\n');
+
+    const summary = await applyAgentResult(
+      { files: [{ path: 'gone.txt', action: 'delete' }] },
+      { rootDir: tempDir, dryRun: true }
+    );
+
+    expect(summary.operations[0].diff).toContain('+++ /dev/null');
+    expect(summary.operations[0].linesRemoved).toBe(2);
+  });
 });
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { captureBaseline } from '../../src/fileEngine/baseline.js';
+import { formatGitPatch } from '../../src/fileEngine/gitPatch.js';
+
+// A 1x1 PNG: NUL bytes and bytes that are not valid UTF-8.
+const PNG = Buffer.from(
+  '89504e470d0a1a0a0000000d49484452000000010000000108060000001f15c4890000000d49444154789c6360f8cfc000000301010018dd8db00000000049454e44ae426082',
+  'hex'
+);
+
+describe('applyAgentResult - content encodings', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-encoding-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('base64', () => {
+    it('writes the decoded bytes unchanged', async () => {
+      const summary = await applyAgentResult(
+        { files: [{ path: 'assets/pixel.png', action: 'create', content: PNG.toString('base64'), encoding: 'base64' }] },
+        { rootDir: tempDir }
+      );
+
+      expect(summary.operations[0]).toMatchObject({
+        status: 'created',
+        binary: true,
+        diff: 'Binary files /dev/null and b/assets/pixel.png differ\n',
+        proposedContent: PNG.toString('base64'),
+      });
+      expect((await fs.readFile(path.join(tempDir, 'assets/pixel.png'))).equals(PNG)).toBe(true);
+    });
+
+    it('round-trips a binary file through an update', async () => {
+      await fs.writeFile(path.join(tempDir, 'pixel.png'), Buffer.from([0, 1, 2]));
+      const content = (await fs.readFile(path.join(tempDir, 'pixel.png'))).toString('base64');
+
+      const unchanged = await applyAgentResult(
+        { files: [{ path: 'pixel.png', action: 'update', content, encoding: 'base64' }] },
+        { rootDir: tempDir }
+      );
+      const replaced = await applyAgentResult(
+        { files: [{ path: 'pixel.png', action: 'update', content: PNG.toString('base64'), encoding: 'base64' }] },
+        { rootDir: tempDir }
+      );
+
+      expect(unchanged.operations[0].diff).toBe('');
+      expect(replaced.operations[0].status).toBe('updated');
+      expect(replaced.operations[0].diff).toBe('Binary files a/pixel.png and b/pixel.png differ\n');
+      expect((await fs.readFile(path.join(tempDir, 'pixel.png'))).equals(PNG)).toBe(true);
+    });
+
+    it('rejects content that is not base64 and hunks against binary content', async () => {
+      const summary = await applyAgentResult(
+        {
+          files: [
+            { path: 'a.bin', action: 'create', content: 'not base64!', encoding: 'base64' },
+            { path: 'b.bin', action: 'update', patch: '@@ -1 +1 @@\n-a\n+b\n', encoding: 'base64' },
+          ],
+        },
+        { rootDir: tempDir }
+      );
+
+      expect(summary.operations.map((op) => op.status)).toEqual(['invalid-content', 'skipped']);
+      expect(summary.operations[1].message).toBe('Patches and edits cannot be applied to base64 content.');
+      await expect(fs.access(path.join(tempDir, 'a.bin'))).rejects.toThrow();
+    });
+
+    it('reports binary deletes and exports them as git does', async () => {
+      await fs.writeFile(path.join(tempDir, 'pixel.png'), PNG);
+
+      const summary = await applyAgentResult(
+        { files: [{ path: 'pixel.png', action: 'delete' }] },
+        { rootDir: tempDir, dryRun: true }
+      );
+
+      expect(summary.operations[0].binary).toBe(true);
+      expect(await formatGitPatch(summary.operations, tempDir)).toBe(
+        [
+          'diff --git a/pixel.png b/pixel.png',
+          'deleted file mode 100644',
+          'Binary files a/pixel.png and /dev/null differ',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('latin1', () => {
+    it('patches and writes single-byte text without converting it to UTF-8', async () => {
+      await fs.writeFile(path.join(tempDir, 'legacy.txt'), Buffer.from('caf\xe9\nna\xefve\n', 'latin1'));
+
+      const summary = await applyAgentResult(
+        {
+          files: [
+            {
+              path: 'legacy.txt',
+              action: 'update',
+              edits: [{ search: 'na\xefve', replace: 'cr\xe8me' }],
+              encoding: 'latin1',
+            },
+          ],
+        },
+        { rootDir: tempDir }
+      );
+
+      expect(summary.operations[0].status).toBe('updated');
+      expect(summary.operations[0].diff).toContain('+cr\xe8me');
+      expect(await fs.readFile(path.join(tempDir, 'legacy.txt'))).toEqual(Buffer.from('caf\xe9\ncr\xe8me\n', 'latin1'));
+    });
+  });
+
+  it('skips unknown encodings', async () => {
+    const summary = await applyAgentResult(
+      { files: [{ path: 'a.txt', action: 'create', content: 'x', encoding: 'utf16' as 'utf8' }] },
+      { rootDir: tempDir }
+    );
+
+    expect(summary.operations[0].status).toBe('skipped');
+    expect(summary.operations[0].message).toBe('Unsupported encoding "utf16" (expected one of: utf8, base64, latin1).');
+  });
+
+  it('keeps binary files out of the merge base', async () => {
+    await fs.writeFile(path.join(tempDir, 'pixel.png'), PNG);
+    await fs.writeFile(path.join(tempDir, 'a.txt'), 'text\n');
+
+    const baseline = await captureBaseline(tempDir, ['*']);
+
+    expect(baseline['pixel.png'].content).toBeUndefined();
+    expect(baseline['a.txt'].content).toBe('text\n');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult, writtenPaths } from '../../src/fileEngine/apply.js';
+import { InvalidPathError } from '../../src/fileEngine/errors.js';
+
+describe('applyAgentResult - rename/move action', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-move-'));
+    await fs.writeFile(path.join(tempDir, 'old.sh'), '#!/bin/sh\necho hi\n');
+    await fs.chmod(path.join(tempDir, 'old.sh'), 0o755);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('moves a file and keeps its permissions', async () => {
+    const summary = await applyAgentResult(
+      { files: [{ path: 'scripts/new.sh', action: 'move', from: 'old.sh', to: 'scripts/new.sh' }] },
+      { rootDir: tempDir, dryRun: false }
+    );
+
+    expect(summary.operations[0].status).toBe('moved');
+    expect(summary.counts.moved).toBe(1);
+    await expect(fs.access(path.join(tempDir, 'old.sh'))).rejects.toThrow();
+
+    const stat = await fs.stat(path.join(tempDir, 'scripts', 'new.sh'));
+    expect(stat.mode & 0o777).toBe(0o755);
+  });
+
+  it('writes new content at the destination when provided', async () => {
+    const summary = await applyAgentResult(
+      {
+        files: [{ path: 'new.sh', action: 'rename', from: 'old.sh', to: 'new.sh', content: '#!/bin/sh\necho bye\n' }],
+      },
+      { rootDir: tempDir, dryRun: false }
+    );
+
+    expect(summary.operations[0].diff).toContain('--- a/old.sh');
+    expect(summary.operations[0].diff).toContain('+++ b/new.sh');
+    expect(await fs.readFile(path.join(tempDir, 'new.sh'), 'utf8')).toBe('#!/bin/sh\necho bye\n');
+  });
+
+  it('validates and scans the new content like an update', async () => {
+    const key = 'AKIA' + 'Z7QK3LMX9PW2RT4B';
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'config.json', action: 'move', from: 'old.sh', to: 'config.json', content: '{"a": 1,}\n' },
+          { path: 'old.sh', action: 'move', from: 'old.sh', to: 'key.sh', content: `echo ${key}\n` },
+        ],
+      },
+      { rootDir: tempDir, dryRun: false, validation: 'block', secretScan: 'block' }
+    );
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['invalid-content', 'secret-detected']);
+    expect(summary.operations[0].message).toMatch(/^Not written: invalid JSON: /);
+    expect(summary.operations[1].proposedContent).toBeUndefined();
+    expect(await fs.readFile(path.join(tempDir, 'old.sh'), 'utf8')).toBe('#!/bin/sh\necho hi\n');
+
+    const warned = await applyAgentResult(
+      { files: [{ path: 'key.sh', action: 'move', from: 'old.sh', to: 'key.sh', content: `echo ${key}\n` }] },
+      { rootDir: tempDir, dryRun: false, secretScan: 'warn' }
+    );
+
+    expect(warned.operations[0].status).toBe('moved');
+    expect(warned.operations[0].warnings).toEqual(['secret-detected']);
+    expect(warned.operations[0].message).toBe('File moved to key.sh. Possible secret: AWS access key ID on line 1.');
+  });
+
+  it('does not move anything in dry-run mode', async () => {
+    const summary = await applyAgentResult(
+      { files: [{ path: 'new.sh', action: 'move', from: 'old.sh', to: 'new.sh' }] },
+      { rootDir: tempDir, dryRun: true }
+    );
+
+    expect(summary.operations[0].status).toBe('moved');
+    expect(summary.operations[0].message).toContain('Dry-run');
+    await expect(fs.access(path.join(tempDir, 'old.sh'))).resolves.toBeUndefined();
+  });
+
+  it('skips when the source does not exist or the destination is taken', async () => {
+    await fs.writeFile(path.join(tempDir, 'taken.sh'), 'occupied');
+
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'x.sh', action: 'move', from: 'missing.sh', to: 'x.sh' },
+          { path: 'taken.sh', action: 'move', from: 'old.sh', to: 'taken.sh' },
+        ],
+      },
+      { rootDir: tempDir, dryRun: false }
+    );
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['skipped', 'skipped']);
+    expect(summary.operations[1].message).toContain('Destination already exists');
+    expect(await fs.readFile(path.join(tempDir, 'taken.sh'), 'utf8')).toBe('occupied');
+  });
+
+  it('validates both paths against the project root', async () => {
+    await expect(
+      applyAgentResult(
+        { files: [{ path: 'x', action: 'move', from: 'old.sh', to: '../escape.sh' }] },
+        { rootDir: tempDir, dryRun: false }
+      )
+    ).rejects.toThrow(InvalidPathError);
+  });
+});
+
+describe('writtenPaths', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-written-'));
+    await fs.writeFile(path.join(tempDir, 'a.txt'), 'a\n');
+    await fs.writeFile(path.join(tempDir, 'c.txt'), 'c\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists both ends of moves and skips operations that did not write', async () => {
+    const result = {
+      files: [
+        { path: 'b.txt', action: 'move' as const, from: 'a.txt', to: 'b.txt' },
+        { path: './c.txt', action: 'update' as const, content: 'new c\n' },
+        { path: 'd.txt', action: 'noop' as const },
+      ],
+    };
+
+    const dryRun = await applyAgentResult(result, { rootDir: tempDir, dryRun: true });
+    const summary = await applyAgentResult(result, { rootDir: tempDir });
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['moved', 'updated', 'skipped']);
+    expect(writtenPaths(summary)).toEqual(['a.txt', 'b.txt', 'c.txt']);
+    expect(writtenPaths(dryRun)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import type { FileOperationResult, ReviewDecision } from '../../src/fileEngine/types.js';
+
+describe('applyAgentResult - review callback', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-review-'));
+    await fs.writeFile(path.join(tempDir, 'keep.txt'), 'keep\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const files = [
+    { path: 'good.txt', action: 'create' as const, content: 'good\n' },
+    { path: 'bad.txt', action: 'create' as const, content: 'bad\n' },
+    { path: 'keep.txt', action: 'delete' as const },
+    { path: 'nothing.txt', action: 'noop' as const },
+  ];
+
+  it('writes accepted changes and reports rejected ones in order', async () => {
+    const decisions: Record<string, ReviewDecision> = { 'good.txt': 'accept', 'bad.txt': 'reject', 'keep.txt': 'reject' };
+    const reviewed: FileOperationResult[] = [];
+
+    const summary = await applyAgentResult(
+      { files },
+      {
+        rootDir: tempDir,
+        dryRun: false,
+        review: async (operation) => {
+          reviewed.push(operation);
+          return decisions[operation.change.path];
+        },
+      }
+    );
+
+    expect(reviewed.map((op) => op.change.path)).toEqual(['good.txt', 'bad.txt', 'keep.txt']);
+    expect(reviewed[0].proposedContent).toBe('good\n');
+    expect(reviewed[0].diff).toContain('+good');
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['created', 'rejected', 'rejected', 'skipped']);
+    expect(summary.counts.rejected).toBe(2);
+    expect(await fs.readFile(path.join(tempDir, 'good.txt'), 'utf8')).toBe('good\n');
+    await expect(fs.access(path.join(tempDir, 'bad.txt'))).rejects.toThrow();
+    expect(await fs.readFile(path.join(tempDir, 'keep.txt'), 'utf8')).toBe('keep\n');
+  });
+
+  it('writes edited content instead of the proposal', async () => {
+    const summary = await applyAgentResult(
+      { files: [{ path: 'keep.txt', action: 'update', patch: '@@ -1 +1 @@\n-keep\n+agent\n' }] },
+      { rootDir: tempDir, dryRun: false, review: async () => ({ content: 'edited by hand\n' }) }
+    );
+
+    expect(summary.operations[0].status).toBe('updated');
+    expect(await fs.readFile(path.join(tempDir, 'keep.txt'), 'utf8')).toBe('edited by hand\n');
+  });
+
+  it('does not ask for review in dry-run', async () => {
+    let calls = 0;
+
+    await applyAgentResult(
+      { files },
+      {
+        rootDir: tempDir,
+        dryRun: true,
+        review: async () => {
+          calls += 1;
+          return 'accept';
+        },
+      }
+    );
+
+    expect(calls).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import type { AgentResult } from '@digital-fluid/fluid-agent';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+
+describe('applyAgentResult - transactional mode', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-tx-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('applies every operation when nothing fails', async () => {
+    await fs.writeFile(path.join(tempDir, 'update.txt'), 'Original');
+
+    const agentResult: AgentResult = {
+      files: [
+        { path: 'create.txt', action: 'create', content: 'Created' },
+        { path: 'update.txt', action: 'update', content: 'Updated' },
+      ],
+    };
+
+    const summary = await applyAgentResult(agentResult, {
+      rootDir: tempDir,
+      dryRun: false,
+      transactional: true,
+    });
+
+    expect(summary.rollback).toBeUndefined();
+    expect(summary.counts.created).toBe(1);
+    expect(summary.counts.updated).toBe(1);
+    expect(await fs.readFile(path.join(tempDir, 'update.txt'), 'utf8')).toBe('Updated');
+  });
+
+  it('restores all files when a later write fails', async () => {
+    await fs.writeFile(path.join(tempDir, 'update.txt'), 'Original');
+    await fs.writeFile(path.join(tempDir, 'delete.txt'), 'Keep me');
+    // A regular file where a directory is needed makes the last write fail.
+    await fs.writeFile(path.join(tempDir, 'blocker'), 'not a directory');
+
+    const agentResult: AgentResult = {
+      files: [
+        { path: 'nested/create.txt', action: 'create', content: 'Created' },
+        { path: 'update.txt', action: 'update', content: 'Updated' },
+        { path: 'delete.txt', action: 'delete' },
+        { path: 'blocker/file.txt', action: 'create', content: 'Boom' },
+      ],
+    };
+
+    const summary = await applyAgentResult(agentResult, {
+      rootDir: tempDir,
+      dryRun: false,
+      transactional: true,
+    });
+
+    expect(summary.rollback).toBeDefined();
+    expect(summary.rollback?.reason).toContain('Failed to write file');
+    expect(summary.operations[3].message).toContain('Failed');
+    expect(summary.operations[0].message).toContain('Rolled back');
+
+    expect(await fs.readFile(path.join(tempDir, 'update.txt'), 'utf8')).toBe('Original');
+    expect(await fs.readFile(path.join(tempDir, 'delete.txt'), 'utf8')).toBe('Keep me');
+    await expect(fs.access(path.join(tempDir, 'nested'))).rejects.toThrow();
+  });
+
+  it('does not write anything when staging rejects a path', async () => {
+    const agentResult: AgentResult = {
+      files: [
+        { path: 'create.txt', action: 'create', content: 'Created' },
+        { path: '../outside.txt', action: 'create', content: 'Nope' },
+      ],
+    };
+
+    await expect(
+      applyAgentResult(agentResult, { rootDir: tempDir, dryRun: false, transactional: true })
+    ).rejects.toThrow();
+
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+});
@@ -3,7 +3,7 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import type { AgentResult } from '@digital-fluid/fluid-agent';
-import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { applyAgentResult, writtenPaths } from '../../src/fileEngine/apply.js';
 
 describe('applyAgentResult - write mode', () => {
   let tempDir: string;
@@ -86,6 +86,21 @@ describe('applyAgentResult - write mode', () => {
       const content = await fs.readFile(filePath, 'utf8');
       expect(content).toBe('');
     });
+
+    it('reports a create of an existing file as an update with a warning', async () => {
+      await fs.writeFile(path.join(tempDir, 'exists.txt'), 'Original');
+
+      const summary = await applyAgentResult(
+        { files: [{ path: 'exists.txt', action: 'create', content: 'Replaced' }] },
+        { rootDir: tempDir, dryRun: false }
+      );
+
+      expect(summary.operations[0].status).toBe('updated');
+      expect(summary.operations[0].warnings).toEqual(['created-over-existing']);
+      expect(summary.operations[0].message).toContain('already existed');
+      expect(summary.operations[0].diff).toContain('-Original');
+      expect(await fs.readFile(path.join(tempDir, 'exists.txt'), 'utf8')).toBe('Replaced');
+    });
   });
 
   describe('update action', () => {
@@ -117,7 +132,7 @@ describe('applyAgentResult - write mode', () => {
       expect(content).toBe('Updated content');
     });
 
-    it('creates file if it does not exist (update behaves like create)', async () => {
+    it('creates the file if it does not exist and reports it as created', async () => {
       const agentResult: AgentResult = {
         files: [
           {
@@ -133,7 +148,9 @@ describe('applyAgentResult - write mode', () => {
         dryRun: false,
       });
 
-      expect(summary.operations[0].status).toBe('updated');
+      expect(summary.operations[0].status).toBe('created');
+      expect(summary.operations[0].warnings).toEqual(['updated-missing-file']);
+      expect(summary.counts.created).toBe(1);
 
       // Verify file was created
       const filePath = path.join(tempDir, 'new-via-update.txt');
@@ -184,9 +201,10 @@ describe('applyAgentResult - write mode', () => {
         dryRun: false,
       });
 
-      expect(summary.operations[0].status).toBe('deleted');
+      expect(summary.operations[0].status).toBe('skipped');
       expect(summary.operations[0].message).toContain('already absent');
-      expect(summary.counts.deleted).toBe(1);
+      expect(summary.counts.deleted).toBe(0);
+      expect(writtenPaths(summary)).toEqual([]);
     });
   });
 
@@ -250,11 +268,64 @@ describe('applyAgentResult - write mode', () => {
       await expect(fs.access(path.join(tempDir, 'delete.txt'))).rejects.toThrow();
       await expect(fs.access(path.join(tempDir, 'noop.txt'))).rejects.toThrow();
     });
+
+    it('reports a failed operation and carries on with the rest', async () => {
+      // A directory where a file is expected makes reading and writing it fail
+      await fs.mkdir(path.join(tempDir, 'blocker.txt'));
+
+      const summary = await applyAgentResult(
+        {
+          files: [
+            { path: 'blocker.txt', action: 'update', content: 'x' },
+            { path: 'after.txt', action: 'create', content: 'After' },
+          ],
+        },
+        { rootDir: tempDir, dryRun: false }
+      );
+
+      expect(summary.operations.map((op) => op.status)).toEqual(['failed', 'created']);
+      expect(summary.operations[0].message).toContain('blocker.txt');
+      expect(summary.counts.failed).toBe(1);
+      expect(await fs.readFile(path.join(tempDir, 'after.txt'), 'utf8')).toBe('After');
+    });
+
+    it('reports a failed operation in transactional mode and writes nothing', async () => {
+      await fs.mkdir(path.join(tempDir, 'blocker.txt'));
+
+      const summary = await applyAgentResult(
+        {
+          files: [
+            { path: 'after.txt', action: 'create', content: 'After' },
+            { path: 'blocker.txt', action: 'update', content: 'x' },
+          ],
+        },
+        { rootDir: tempDir, transactional: true }
+      );
+
+      expect(summary.operations.map((op) => op.status)).toEqual(['created', 'failed']);
+      expect(summary.rollback?.reason).toContain('blocker.txt');
+      await expect(fs.access(path.join(tempDir, 'after.txt'))).rejects.toThrow();
+    });
+
+    it('reports a failed operation when limits or review stage the changes', async () => {
+      await fs.mkdir(path.join(tempDir, 'blocker.txt'));
+      const files = [
+        { path: 'blocker.txt', action: 'update' as const, content: 'x' },
+        { path: 'after.txt', action: 'create' as const, content: 'After' },
+      ];
+
+      const limited = await applyAgentResult({ files }, { rootDir: tempDir, limits: { maxFiles: 5 } });
+      const reviewed = await applyAgentResult({ files }, { rootDir: tempDir, review: async () => 'accept' });
+
+      expect(limited.operations.map((op) => op.status)).toEqual(['failed', 'created']);
+      expect(reviewed.operations.map((op) => op.status)).toEqual(['failed', 'updated']);
+    });
   });
 
   describe('logger', () => {
     it('calls logger with appropriate messages', async () => {
       const logger = jest.fn();
+      await fs.writeFile(path.join(tempDir, 'delete.txt'), 'delete me');
 
       const agentResult: AgentResult = {
         files: [
@@ -273,7 +344,7 @@ describe('applyAgentResult - write mode', () => {
 
       expect(logger).toHaveBeenCalledTimes(4);
       expect(logger).toHaveBeenCalledWith('CREATE: create.txt');
-      expect(logger).toHaveBeenCalledWith('UPDATE: update.txt');
+      expect(logger).toHaveBeenCalledWith('CREATE: update.txt (updated-missing-file)');
       expect(logger).toHaveBeenCalledWith('DELETE: delete.txt');
       expect(logger).toHaveBeenCalledWith('SKIP (noop): noop.txt');
     });
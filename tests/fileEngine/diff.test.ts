@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { createUnifiedDiff, diffLines, splitLines } from '../../src/fileEngine/diff.js';
+
+describe('diff module', () => {
+  describe('splitLines', () => {
+    it('keeps trailing newlines on each line', () => {
+      expect(splitLines('a\nb\n')).toEqual(['a\n', 'b\n']);
+    });
+
+    it('keeps the last line without newline as-is', () => {
+      expect(splitLines('a\nb')).toEqual(['a\n', 'b']);
+    });
+
+    it('returns no lines for empty text', () => {
+      expect(splitLines('')).toEqual([]);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('marks identical input as equal', () => {
+      const lines = diffLines(['a\n', 'b\n'], ['a\n', 'b\n']);
+      expect(lines.map((l) => l.kind)).toEqual(['equal', 'equal']);
+    });
+
+    it('finds a minimal set of edits', () => {
+      const lines = diffLines(['a\n', 'b\n', 'c\n'], ['a\n', 'x\n', 'c\n']);
+      expect(lines.map((l) => `${l.kind}:${l.text.trim()}`)).toEqual([
+        'equal:a',
+        'remove:b',
+        'add:x',
+        'equal:c',
+      ]);
+    });
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('returns an empty diff when content is unchanged', () => {
+      const result = createUnifiedDiff('file.txt', 'same\n', 'same\n');
+      expect(result).toEqual({ diff: '', linesAdded: 0, linesRemoved: 0 });
+    });
+
+    it('renders a single hunk with context', () => {
+      const result = createUnifiedDiff('file.txt', 'one\ntwo\nthree\n', 'one\nTWO\nthree\n');
+
+      expect(result.linesAdded).toBe(1);
+      expect(result.linesRemoved).toBe(1);
+      expect(result.diff).toBe(
+        ['--- a/file.txt', '+++ b/file.txt', '@@ -1,3 +1,3 @@', ' one', '-two', '+TWO', ' three', ''].join('\n')
+      );
+    });
+
+    it('uses /dev/null for created files', () => {
+      const result = createUnifiedDiff('new.txt', null, 'hello\n');
+
+      expect(result.diff).toContain('--- /dev/null');
+      expect(result.diff).toContain('+++ b/new.txt');
+      expect(result.diff).toContain('@@ -0,0 +1,1 @@');
+      expect(result.linesAdded).toBe(1);
+    });
+
+    it('uses /dev/null for deleted files', () => {
+      const result = createUnifiedDiff('old.txt', 'bye\n', null);
+
+      expect(result.diff).toContain('--- a/old.txt');
+      expect(result.diff).toContain('+++ /dev/null');
+      expect(result.linesRemoved).toBe(1);
+    });
+
+    it('marks a missing newline at end of file', () => {
+      const result = createUnifiedDiff('file.txt', 'a\n', 'a');
+      expect(result.diff).toContain('\\ No newline at end of file');
+    });
+
+    it('splits distant changes into separate hunks', () => {
+      const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+      const after = before.replace('line 2\n', 'line two\n').replace('line 19\n', 'line nineteen\n');
+
+      const result = createUnifiedDiff('file.txt', before, after);
+
+      expect(result.diff.match(/^@@/gm)).toHaveLength(2);
+      expect(result.diff).toContain('@@ -1,5 +1,5 @@');
+      expect(result.diff).toContain('@@ -16,5 +16,5 @@');
+    });
+  });
+});
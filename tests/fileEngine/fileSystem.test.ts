@@ -9,6 +9,15 @@ import {
 } from '../../src/fileEngine/fileSystem.js';
 import { InvalidPathError, FileSystemOperationError } from '../../src/fileEngine/errors.js';
 
+function rejectionReason(resolve: () => unknown): string | undefined {
+  try {
+    resolve();
+  } catch (error) {
+    return error instanceof InvalidPathError ? error.reason : undefined;
+  }
+  return undefined;
+}
+
 describe('fileSystem module', () => {
   let tempDir: string;
 
@@ -60,6 +69,59 @@ describe('fileSystem module', () => {
     });
   });
 
+  describe('resolveProjectPath with symlinks', () => {
+    let outsideDir: string;
+
+    beforeEach(async () => {
+      outsideDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-outside-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(outsideDir, { recursive: true, force: true });
+    });
+
+    it('rejects paths through a directory symlink that leaves the root', async () => {
+      await fs.symlink(outsideDir, path.join(tempDir, 'linked'));
+
+      expect(() => resolveProjectPath(tempDir, 'linked/file.txt')).toThrow(InvalidPathError);
+      expect(rejectionReason(() => resolveProjectPath(tempDir, 'linked/new/deep/file.txt'))).toBe('symlink-escape');
+    });
+
+    it('rejects a file symlink pointing outside the root', async () => {
+      await fs.writeFile(path.join(outsideDir, 'target.txt'), 'outside');
+      await fs.symlink(path.join(outsideDir, 'target.txt'), path.join(tempDir, 'link.txt'));
+
+      expect(() => resolveProjectPath(tempDir, 'link.txt')).toThrow(/through a symlink/);
+    });
+
+    it('rejects a dangling symlink whose target is outside the root', async () => {
+      await fs.symlink(path.join(outsideDir, 'not-yet.txt'), path.join(tempDir, 'dangling.txt'));
+
+      expect(() => resolveProjectPath(tempDir, 'dangling.txt')).toThrow(InvalidPathError);
+    });
+
+    it('reports symlink loops', async () => {
+      await fs.symlink(path.join(tempDir, 'b'), path.join(tempDir, 'a'));
+      await fs.symlink(path.join(tempDir, 'a'), path.join(tempDir, 'b'));
+
+      expect(rejectionReason(() => resolveProjectPath(tempDir, 'a/file.txt'))).toBe('symlink-loop');
+    });
+
+    it('allows symlinks that stay inside the root', async () => {
+      await fs.mkdir(path.join(tempDir, 'real'));
+      await fs.symlink(path.join(tempDir, 'real'), path.join(tempDir, 'alias'));
+
+      expect(resolveProjectPath(tempDir, 'alias/file.txt')).toBe(path.join(tempDir, 'alias', 'file.txt'));
+    });
+
+    it('accepts a root that is itself reached through a symlink', async () => {
+      const linkedRoot = path.join(outsideDir, 'root-link');
+      await fs.symlink(tempDir, linkedRoot);
+
+      expect(resolveProjectPath(linkedRoot, 'src/file.ts')).toBe(path.join(linkedRoot, 'src', 'file.ts'));
+    });
+  });
+
   describe('writeFileSafe', () => {
     it('writes a new file', async () => {
       const filePath = path.join(tempDir, 'test.txt');
@@ -107,6 +169,34 @@ describe('fileSystem module', () => {
       const readContent = await fs.readFile(filePath, 'utf8');
       expect(readContent).toBe(content);
     });
+
+    it('keeps the permissions of the file it replaces', async () => {
+      const filePath = path.join(tempDir, 'script.sh');
+      await fs.writeFile(filePath, '#!/bin/sh\n');
+      await fs.chmod(filePath, 0o755);
+
+      await writeFileSafe(filePath, '#!/bin/sh\necho hi\n');
+
+      const stat = await fs.stat(filePath);
+      expect(stat.mode & 0o777).toBe(0o755);
+    });
+
+    it('leaves no temp files behind', async () => {
+      await writeFileSafe(path.join(tempDir, 'a.txt'), 'one');
+      await writeFileSafe(path.join(tempDir, 'a.txt'), 'two');
+
+      expect(await fs.readdir(tempDir)).toEqual(['a.txt']);
+    });
+
+    it('writes through a symlink instead of replacing it', async () => {
+      await fs.writeFile(path.join(tempDir, 'real.txt'), 'old');
+      await fs.symlink(path.join(tempDir, 'real.txt'), path.join(tempDir, 'alias.txt'));
+
+      await writeFileSafe(path.join(tempDir, 'alias.txt'), 'new');
+
+      expect((await fs.lstat(path.join(tempDir, 'alias.txt'))).isSymbolicLink()).toBe(true);
+      expect(await fs.readFile(path.join(tempDir, 'real.txt'), 'utf8')).toBe('new');
+    });
   });
 
   describe('deleteFileSafe', () => {
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { formatGitPatch } from '../../src/fileEngine/gitPatch.js';
+
+describe('formatGitPatch', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-git-patch-'));
+    await fs.writeFile(path.join(tempDir, 'a.txt'), 'one\ntwo\n');
+    await fs.writeFile(path.join(tempDir, 'old.txt'), 'moved\n');
+    await fs.writeFile(path.join(tempDir, 'run.sh'), '#!/bin/sh\n', { mode: 0o755 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function patchFor(files: Parameters<typeof applyAgentResult>[0]['files']): Promise<string> {
+    const summary = await applyAgentResult({ files }, { rootDir: tempDir, dryRun: true });
+    return formatGitPatch(summary.operations, tempDir);
+  }
+
+  it('renders updates, creates and deletes with git headers', async () => {
+    const patch = await patchFor([
+      { path: 'a.txt', action: 'update', content: 'one\nTWO\n' },
+      { path: 'b.txt', action: 'create', content: 'new\n' },
+      { path: 'run.sh', action: 'delete' },
+    ]);
+
+    expect(patch).toBe(
+      [
+        'diff --git a/a.txt b/a.txt',
+        '--- a/a.txt',
+        '+++ b/a.txt',
+        '@@ -1,2 +1,2 @@',
+        ' one',
+        '-two',
+        '+TWO',
+        'diff --git a/b.txt b/b.txt',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/b.txt',
+        '@@ -0,0 +1,1 @@',
+        '+new',
+        'diff --git a/run.sh b/run.sh',
+        'deleted file mode 100755',
+        '--- a/run.sh',
+        '+++ /dev/null',
+        '@@ -1,1 +0,0 @@',
+        '-#!/bin/sh',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('keeps the mode of files a write run deleted', async () => {
+    const summary = await applyAgentResult({ files: [{ path: 'run.sh', action: 'delete' }] }, { rootDir: tempDir });
+
+    expect(summary.operations[0].deletedMode).toBe(0o755);
+    expect(await formatGitPatch(summary.operations, tempDir)).toContain('deleted file mode 100755\n');
+  });
+
+  it('renders pure renames and empty new files without hunks', async () => {
+    const patch = await patchFor([
+      { path: 'old.txt', action: 'move', from: 'old.txt', to: 'dir/new.txt' },
+      { path: 'empty.txt', action: 'create', content: '' },
+    ]);
+
+    expect(patch).toBe(
+      [
+        'diff --git a/old.txt b/dir/new.txt',
+        'similarity index 100%',
+        'rename from old.txt',
+        'rename to dir/new.txt',
+        'diff --git a/empty.txt b/empty.txt',
+        'new file mode 100644',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('leaves out operations that write nothing', async () => {
+    const patch = await patchFor([
+      { path: 'a.txt', action: 'update', content: 'one\ntwo\n' },
+      { path: 'missing.txt', action: 'delete' },
+      { path: 'node_modules/x.js', action: 'create', content: 'x\n' },
+      { path: 'c.txt', action: 'noop' },
+    ]);
+
+    expect(patch).toBe('');
+  });
+});
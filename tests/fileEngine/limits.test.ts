@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult, checkChangeLimits } from '../../src/fileEngine/apply.js';
+import { ChangeLimitError } from '../../src/fileEngine/errors.js';
+import type { ChangeLimitViolation } from '../../src/fileEngine/types.js';
+
+describe('applyAgentResult - change limits', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-limits-'));
+    for (const name of ['a.txt', 'b.txt', 'c.txt']) {
+      await fs.writeFile(path.join(tempDir, name), `${name}\n`);
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const deleteAll = {
+    files: [
+      { path: 'a.txt', action: 'delete' as const },
+      { path: 'b.txt', action: 'delete' as const },
+      { path: 'c.txt', action: 'delete' as const },
+    ],
+  };
+
+  it('writes nothing and throws when a limit is exceeded', async () => {
+    const error = await applyAgentResult(deleteAll, { rootDir: tempDir, limits: { maxDeletes: 2 } }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ChangeLimitError);
+    expect((error as ChangeLimitError).violations).toEqual([{ limit: 'maxDeletes', max: 2, actual: 3 }]);
+    expect((error as Error).message).toContain('3 deletes (limit 2)');
+    expect((await fs.readdir(tempDir)).sort()).toEqual(['a.txt', 'b.txt', 'c.txt']);
+  });
+
+  it('applies the changes when the confirmation approves', async () => {
+    const seen: ChangeLimitViolation[][] = [];
+    const summary = await applyAgentResult(deleteAll, {
+      rootDir: tempDir,
+      limits: { maxDeletes: 2 },
+      confirmLimits: async (violations) => {
+        seen.push(violations);
+        return true;
+      },
+    });
+
+    expect(seen).toHaveLength(1);
+    expect(summary.counts.deleted).toBe(3);
+    expect(await fs.readdir(tempDir)).toEqual([]);
+  });
+
+  it('does not check limits in dry-run', async () => {
+    const summary = await applyAgentResult(deleteAll, { rootDir: tempDir, dryRun: true, limits: { maxDeletes: 0 } });
+
+    expect(summary.counts.deleted).toBe(3);
+  });
+
+  it('measures files, bytes and lines per file of writing operations only', async () => {
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'a.txt', action: 'update', content: 'one\ntwo\nthree\n' },
+          { path: 'd.txt', action: 'create', content: 'new\n' },
+          { path: 'node_modules/x.js', action: 'create', content: 'blocked\n' },
+        ],
+      },
+      { rootDir: tempDir, dryRun: true }
+    );
+
+    expect(checkChangeLimits(summary.operations, { maxFiles: 1, maxBytes: 17, maxLinesPerFile: 3 })).toEqual([
+      { limit: 'maxFiles', max: 1, actual: 2 },
+      { limit: 'maxBytes', max: 17, actual: 18 },
+      { limit: 'maxLinesPerFile', max: 3, actual: 4, path: 'a.txt' },
+    ]);
+    expect(checkChangeLimits(summary.operations, { maxFiles: 2, maxBytes: 18, maxLinesPerFile: 4 })).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { captureBaseline } from '../../src/fileEngine/baseline.js';
+import { restoreSnapshot } from '../../src/fileEngine/snapshots.js';
+import { MemoryFileSystem } from '../../src/fileEngine/memoryFileSystem.js';
+
+const ROOT = '/project';
+
+describe('MemoryFileSystem', () => {
+  it('reports missing files, directories in the way and files used as directories', async () => {
+    const fileSystem = new MemoryFileSystem({ '/project/a.txt': 'A', '/project/src/b.ts': 'B' });
+
+    await expect(fileSystem.readFile('/project/missing.txt')).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(fileSystem.readFile('/project/src')).rejects.toMatchObject({ code: 'EISDIR' });
+    await expect(fileSystem.writeFile('/project/a.txt/c.txt', 'C')).rejects.toMatchObject({ code: 'ENOTDIR' });
+    await expect(fileSystem.removeEmptyDirectory('/project/src')).rejects.toMatchObject({ code: 'ENOTEMPTY' });
+
+    expect(await fileSystem.readdir(ROOT)).toEqual([
+      { name: 'a.txt', kind: 'file' },
+      { name: 'src', kind: 'directory' },
+    ]);
+    expect(await fileSystem.stat('/project/src/b.ts')).toEqual({ kind: 'file', mode: 0o644, size: 1 });
+  });
+});
+
+describe('applyAgentResult - in-memory file system', () => {
+  it('applies creates, updates, deletes and moves without touching the disk', async () => {
+    const fileSystem = new MemoryFileSystem({
+      '/project/update.txt': 'old\n',
+      '/project/delete.txt': 'bye\n',
+      '/project/old.txt': 'moved\n',
+    });
+
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'nested/create.txt', action: 'create', content: 'new\n' },
+          { path: 'update.txt', action: 'update', content: 'new\n' },
+          { path: 'delete.txt', action: 'delete' },
+          { path: 'old.txt', action: 'move', from: 'old.txt', to: 'dir/new.txt' },
+        ],
+      },
+      { rootDir: ROOT, fileSystem }
+    );
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['created', 'updated', 'deleted', 'moved']);
+    expect(fileSystem.toJSON()).toEqual({
+      '/project/dir/new.txt': 'moved\n',
+      '/project/nested/create.txt': 'new\n',
+      '/project/update.txt': 'new\n',
+    });
+  });
+
+  it('leaves the files alone in dry-run', async () => {
+    const fileSystem = new MemoryFileSystem({ '/project/a.txt': 'one\n' });
+
+    const summary = await applyAgentResult(
+      { files: [{ path: 'a.txt', action: 'update', content: 'two\n' }] },
+      { rootDir: ROOT, dryRun: true, fileSystem }
+    );
+
+    expect(summary.operations[0].diff).toContain('+two');
+    expect(fileSystem.toJSON()).toEqual({ '/project/a.txt': 'one\n' });
+  });
+
+  it('rolls back a failed transaction through the adapter', async () => {
+    const fileSystem = new MemoryFileSystem({ '/project/a.txt': 'one\n', '/project/blocker': 'file\n' });
+
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'nested/b.txt', action: 'create', content: 'b\n' },
+          { path: 'a.txt', action: 'update', content: 'two\n' },
+          { path: 'blocker/c.txt', action: 'create', content: 'c\n' },
+        ],
+      },
+      { rootDir: ROOT, transactional: true, fileSystem }
+    );
+
+    expect(summary.rollback?.restored).toHaveLength(3);
+    expect(fileSystem.toJSON()).toEqual({ '/project/a.txt': 'one\n', '/project/blocker': 'file\n' });
+    await expect(fileSystem.stat('/project/nested')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('merges against a baseline captured from the same adapter', async () => {
+    const fileSystem = new MemoryFileSystem({ '/project/src/a.ts': 'one\ntwo\nthree\n' });
+    const baseline = await captureBaseline(ROOT, ['src/**/*.ts'], fileSystem);
+
+    await fileSystem.writeFile('/project/src/a.ts', 'ONE\ntwo\nthree\n');
+    const summary = await applyAgentResult(
+      { files: [{ path: 'src/a.ts', action: 'update', content: 'one\ntwo\nTHREE\n' }] },
+      { rootDir: ROOT, baseline, fileSystem }
+    );
+
+    expect(summary.operations[0].status).toBe('merged');
+    expect(fileSystem.toJSON()['/project/src/a.ts']).toBe('ONE\ntwo\nTHREE\n');
+  });
+
+  it('keeps snapshots in the adapter so the run can be undone', async () => {
+    const fileSystem = new MemoryFileSystem({ '/project/a.txt': 'one\n' });
+
+    await applyAgentResult(
+      {
+        files: [
+          { path: 'a.txt', action: 'update', content: 'two\n' },
+          { path: 'b.txt', action: 'create', content: 'b\n' },
+        ],
+      },
+      { rootDir: ROOT, snapshotDir: '/snapshots/run-1', fileSystem }
+    );
+
+    const undo = await restoreSnapshot('/snapshots/run-1', { fileSystem });
+
+    expect(undo.refused).toBe(false);
+    expect(fileSystem.toJSON()['/project/a.txt']).toBe('one\n');
+    expect(fileSystem.toJSON()['/project/b.txt']).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { mergeThreeWay } from '../../src/fileEngine/merge.js';
+
+const base = ['one', 'two', 'three', 'four', 'five', 'six', ''].join('\n');
+
+describe('mergeThreeWay', () => {
+  it('returns the other side when only one side changed', () => {
+    const theirs = base.replace('three', 'THREE');
+    expect(mergeThreeWay(base, base, theirs)).toEqual({ content: theirs, conflicts: 0 });
+    expect(mergeThreeWay(base, theirs, base)).toEqual({ content: theirs, conflicts: 0 });
+  });
+
+  it('combines edits to different regions', () => {
+    const ours = base.replace('one', 'ONE');
+    const theirs = base.replace('six', 'SIX').replace('four\n', '');
+
+    const result = mergeThreeWay(base, ours, theirs);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(['ONE', 'two', 'three', 'five', 'SIX', ''].join('\n'));
+  });
+
+  it('merges identical edits on both sides cleanly', () => {
+    const both = base.replace('three', 'THREE');
+    expect(mergeThreeWay(base, both, both)).toEqual({ content: both, conflicts: 0 });
+  });
+
+  it('keeps insertions from both sides at different positions', () => {
+    const ours = `zero\n${base}`;
+    const theirs = `${base}seven\n`;
+
+    expect(mergeThreeWay(base, ours, theirs).content).toBe(`zero\n${base}seven\n`);
+  });
+
+  it('wraps overlapping edits in labelled conflict markers', () => {
+    const ours = base.replace('three', 'ours');
+    const theirs = base.replace('three', 'theirs');
+
+    const result = mergeThreeWay(base, ours, theirs, { ours: 'current', theirs: 'agent' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(
+      ['one', 'two', '<<<<<<< current', 'ours', '=======', 'theirs', '>>>>>>> agent', 'four', 'five', 'six', ''].join(
+        '\n'
+      )
+    );
+  });
+
+  it('keeps markers on their own line when a side lacks a final newline', () => {
+    const result = mergeThreeWay('a\n', 'b', 'c');
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe('<<<<<<< ours\nb\n=======\nc\n>>>>>>> theirs\n');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import type { FileChange } from '../../src/fileEngine/types.js';
+import { applyUnifiedPatch, applySearchReplace, parseUnifiedPatch } from '../../src/fileEngine/patch.js';
+import { createUnifiedDiff } from '../../src/fileEngine/diff.js';
+
+const original = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n') + '\n';
+
+describe('patch module', () => {
+  describe('parseUnifiedPatch', () => {
+    it('skips file headers and reads hunks', () => {
+      const hunks = parseUnifiedPatch(
+        ['--- a/file.txt', '+++ b/file.txt', '@@ -2,2 +2,2 @@', ' two', '-three', '+THREE'].join('\n')
+      );
+
+      expect(hunks).toHaveLength(1);
+      expect(hunks[0].oldStart).toBe(2);
+      expect(hunks[0].oldLines).toEqual(['two', 'three']);
+      expect(hunks[0].newLines).toEqual(['two', 'THREE']);
+    });
+
+    it('reads a bare +/- block as a single unpositioned hunk', () => {
+      const hunks = parseUnifiedPatch(['-three', '+THREE'].join('\n'));
+      expect(hunks).toHaveLength(1);
+      expect(hunks[0].oldStart).toBeUndefined();
+    });
+  });
+
+  describe('applyUnifiedPatch', () => {
+    it('round-trips a diff produced by createUnifiedDiff', () => {
+      const updated = original.replace('two\n', 'TWO\n').replace('seven\n', 'seven\nseven and a half\n');
+      const { diff } = createUnifiedDiff('file.txt', original, updated, { context: 1 });
+
+      const result = applyUnifiedPatch(original, diff);
+
+      expect(result.failures).toEqual([]);
+      expect(result.content).toBe(updated);
+    });
+
+    it('finds a hunk whose header line number is off', () => {
+      const patch = ['@@ -1,2 +1,2 @@', ' five', '-six', '+SIX'].join('\n');
+
+      const result = applyUnifiedPatch(original, patch);
+
+      expect(result.failures).toEqual([]);
+      expect(result.content).toContain('five\nSIX\nseven');
+    });
+
+    it('reports hunks that do not match', () => {
+      const patch = ['@@ -2,1 +2,1 @@', '-not in file', '+replacement'].join('\n');
+
+      const result = applyUnifiedPatch(original, patch);
+
+      expect(result.failures).toHaveLength(1);
+      expect(result.failures[0]).toContain('Hunk 1');
+      expect(result.content).toBe(original);
+    });
+
+    it('preserves CRLF line endings', () => {
+      const crlf = 'a\r\nb\r\n';
+      const result = applyUnifiedPatch(crlf, ['@@ -1,2 +1,2 @@', ' a', '-b', '+c'].join('\n'));
+      expect(result.content).toBe('a\r\nc\r\n');
+    });
+  });
+
+  describe('applySearchReplace', () => {
+    it('replaces the first occurrence of each search block', () => {
+      const result = applySearchReplace(original, [{ search: 'three\nfour', replace: '3\n4' }]);
+      expect(result.failures).toEqual([]);
+      expect(result.content).toContain('two\n3\n4\nfive');
+    });
+
+    it('reports search blocks that are not found', () => {
+      const result = applySearchReplace(original, [{ search: 'missing', replace: 'x' }]);
+      expect(result.failures[0]).toContain('Edit 1');
+    });
+  });
+
+  describe('applyAgentResult with hunk-based changes', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-patch-'));
+      await fs.writeFile(path.join(tempDir, 'file.txt'), original);
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('applies a unified-diff patch in write mode', async () => {
+      const summary = await applyAgentResult(
+        {
+          files: [
+            { path: 'file.txt', action: 'update', patch: ['@@ -3,1 +3,1 @@', '-three', '+THREE'].join('\n') } as FileChange,
+          ],
+        },
+        { rootDir: tempDir, dryRun: false }
+      );
+
+      expect(summary.operations[0].status).toBe('updated');
+      expect(summary.operations[0].linesAdded).toBe(1);
+      expect(await fs.readFile(path.join(tempDir, 'file.txt'), 'utf8')).toBe(original.replace('three', 'THREE'));
+    });
+
+    it('previews search/replace edits in dry-run mode without writing', async () => {
+      const summary = await applyAgentResult(
+        { files: [{ path: 'file.txt', action: 'update', edits: [{ search: 'eight', replace: 'EIGHT' }] } as FileChange] },
+        { rootDir: tempDir, dryRun: true }
+      );
+
+      expect(summary.operations[0].status).toBe('updated');
+      expect(summary.operations[0].diff).toContain('+EIGHT');
+      expect(await fs.readFile(path.join(tempDir, 'file.txt'), 'utf8')).toBe(original);
+    });
+
+    it('marks non-matching patches as patch-failed and leaves the file alone', async () => {
+      const summary = await applyAgentResult(
+        { files: [{ path: 'file.txt', action: 'update', edits: [{ search: 'nope', replace: 'x' }] } as FileChange] },
+        { rootDir: tempDir, dryRun: false }
+      );
+
+      expect(summary.operations[0].status).toBe('patch-failed');
+      expect(summary.counts['patch-failed']).toBe(1);
+      expect(await fs.readFile(path.join(tempDir, 'file.txt'), 'utf8')).toBe(original);
+    });
+  });
+});
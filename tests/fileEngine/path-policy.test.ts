@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { findBlockingRule, isInWriteScope } from '../../src/fileEngine/pathPolicy.js';
+
+describe('findBlockingRule', () => {
+  it.each([
+    ['.git/config', '.git/'],
+    ['packages/app/node_modules/x/index.js', 'node_modules/'],
+    ['.env', '.env'],
+    ['config/.env.production', '.env.*'],
+    ['package-lock.json', 'package-lock.json'],
+    ['fluid-agent.config.yaml', '/fluid-agent.config.{json,yaml,yml}'],
+  ])('blocks %s by default (%s)', (filePath, rule) => {
+    expect(findBlockingRule(filePath)).toBe(rule);
+  });
+
+  it('allows ordinary project files', () => {
+    expect(findBlockingRule('src/index.ts')).toBeUndefined();
+    expect(findBlockingRule('docs/environment.md')).toBeUndefined();
+  });
+
+  it('normalizes paths before matching', () => {
+    expect(findBlockingRule('src/../.git/HEAD')).toBe('.git/');
+  });
+
+  it('applies project deny rules and allow exceptions', () => {
+    const policy = { deny: ['secrets/', '/build'], allow: ['package-lock.json'] };
+
+    expect(findBlockingRule('secrets/key.txt', policy)).toBe('secrets/');
+    expect(findBlockingRule('build', policy)).toBe('/build');
+    expect(findBlockingRule('src/build', policy)).toBeUndefined();
+    expect(findBlockingRule('package-lock.json', policy)).toBeUndefined();
+  });
+
+  it('can skip the built-in rules', () => {
+    expect(findBlockingRule('.env', { useDefaults: false })).toBeUndefined();
+  });
+});
+
+describe('applyAgentResult - path policy', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-policy-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('blocks writes to protected paths and applies the rest', async () => {
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: '.env', action: 'create', content: 'TOKEN=1\n' },
+          { path: 'src/app.ts', action: 'create', content: 'app\n' },
+        ],
+      },
+      { rootDir: tempDir, dryRun: false }
+    );
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['blocked', 'created']);
+    expect(summary.operations[0].message).toContain('".env"');
+    expect(summary.counts.blocked).toBe(1);
+    await expect(fs.access(path.join(tempDir, '.env'))).rejects.toThrow();
+  });
+
+  it('blocks moves into a protected path', async () => {
+    await fs.writeFile(path.join(tempDir, 'notes.txt'), 'notes\n');
+
+    const summary = await applyAgentResult(
+      { files: [{ path: 'secrets/notes.txt', action: 'move', from: 'notes.txt', to: 'secrets/notes.txt' }] },
+      { rootDir: tempDir, dryRun: false, pathPolicy: { deny: ['secrets/'] } }
+    );
+
+    expect(summary.operations[0].status).toBe('blocked');
+    expect(await fs.readFile(path.join(tempDir, 'notes.txt'), 'utf8')).toBe('notes\n');
+  });
+});
+
+describe('isInWriteScope', () => {
+  it('matches literal paths, globs and directories anchored at the root', () => {
+    const scope = ['example/index.html', './src/**/*.ts', 'docs/'];
+
+    expect(isInWriteScope('example/index.html', scope)).toBe(true);
+    expect(isInWriteScope('src/deep/a.ts', scope)).toBe(true);
+    expect(isInWriteScope('docs/guide.md', scope)).toBe(true);
+    expect(isInWriteScope('other/example/index.html', scope)).toBe(false);
+    expect(isInWriteScope('README.md', scope)).toBe(false);
+  });
+});
+
+describe('applyAgentResult - write scope', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-scope-'));
+    await fs.writeFile(path.join(tempDir, 'index.html'), '<html></html>\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('rejects changes outside the scope and applies the rest', async () => {
+    const summary = await applyAgentResult(
+      {
+        files: [
+          { path: 'index.html', action: 'update', content: '<html>blue</html>\n' },
+          { path: 'styles.css', action: 'create', content: 'body {}\n' },
+        ],
+      },
+      { rootDir: tempDir, dryRun: false, writeScope: ['index.html'] }
+    );
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['updated', 'out-of-scope']);
+    expect(summary.counts['out-of-scope']).toBe(1);
+    await expect(fs.access(path.join(tempDir, 'styles.css'))).rejects.toThrow();
+  });
+
+  it('requires both ends of a move to be in scope', async () => {
+    const summary = await applyAgentResult(
+      { files: [{ path: 'public/index.html', action: 'move', from: 'index.html', to: 'public/index.html' }] },
+      { rootDir: tempDir, dryRun: false, writeScope: ['index.html'] }
+    );
+
+    expect(summary.operations[0].status).toBe('out-of-scope');
+    expect(summary.operations[0].message).toContain('public/index.html');
+  });
+});
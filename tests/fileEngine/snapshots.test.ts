@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import type { AgentResult } from '@digital-fluid/fluid-agent';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { readSnapshotManifest, restoreSnapshot } from '../../src/fileEngine/snapshots.js';
+import { SnapshotError } from '../../src/fileEngine/errors.js';
+
+describe('snapshots and undo', () => {
+  let tempDir: string;
+  let rootDir: string;
+  let snapshotDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-snapshot-'));
+    rootDir = path.join(tempDir, 'project');
+    snapshotDir = path.join(tempDir, 'artifacts', 'snapshots');
+    await fs.mkdir(rootDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function applyChanges(): Promise<void> {
+    await fs.writeFile(path.join(rootDir, 'update.txt'), 'Original');
+    await fs.writeFile(path.join(rootDir, 'delete.txt'), 'Deleted content');
+
+    const agentResult: AgentResult = {
+      files: [
+        { path: 'create.txt', action: 'create', content: 'Created' },
+        { path: 'update.txt', action: 'update', content: 'Updated' },
+        { path: 'delete.txt', action: 'delete' },
+      ],
+    };
+
+    await applyAgentResult(agentResult, { rootDir, dryRun: false, snapshotDir });
+  }
+
+  it('records a manifest of touched files in write mode', async () => {
+    await applyChanges();
+
+    const manifest = await readSnapshotManifest(snapshotDir);
+    expect(manifest?.rootDir).toBe(rootDir);
+    expect(manifest?.entries.map((e) => [e.path, e.existed])).toEqual([
+      ['create.txt', false],
+      ['update.txt', true],
+      ['delete.txt', true],
+    ]);
+  });
+
+  it('does not record snapshots in dry-run mode', async () => {
+    await applyAgentResult(
+      { files: [{ path: 'a.txt', action: 'create', content: 'A' }] },
+      { rootDir, dryRun: true, snapshotDir }
+    );
+
+    expect(await readSnapshotManifest(snapshotDir)).toBeNull();
+  });
+
+  it('restores the pre-run state', async () => {
+    await applyChanges();
+
+    const summary = await restoreSnapshot(snapshotDir);
+
+    expect(summary.refused).toBe(false);
+    expect(summary.files.map((f) => f.status)).toEqual(['removed', 'restored', 'restored']);
+    await expect(fs.access(path.join(rootDir, 'create.txt'))).rejects.toThrow();
+    expect(await fs.readFile(path.join(rootDir, 'update.txt'), 'utf8')).toBe('Original');
+    expect(await fs.readFile(path.join(rootDir, 'delete.txt'), 'utf8')).toBe('Deleted content');
+  });
+
+  it('restores the mode files had before the run', async () => {
+    await fs.writeFile(path.join(rootDir, 'build.sh'), '#!/bin/sh\n');
+    await fs.chmod(path.join(rootDir, 'build.sh'), 0o755);
+    await fs.writeFile(path.join(rootDir, 'run.sh'), '#!/bin/sh\n');
+    await fs.chmod(path.join(rootDir, 'run.sh'), 0o700);
+
+    await applyAgentResult(
+      {
+        files: [
+          { path: 'build.sh', action: 'delete' },
+          { path: 'run.sh', action: 'update', content: '#!/bin/sh\nexit 0\n' },
+        ],
+      },
+      { rootDir, snapshotDir }
+    );
+    await fs.chmod(path.join(rootDir, 'run.sh'), 0o644);
+    await restoreSnapshot(snapshotDir);
+
+    expect((await fs.stat(path.join(rootDir, 'build.sh'))).mode & 0o777).toBe(0o755);
+    expect((await fs.stat(path.join(rootDir, 'run.sh'))).mode & 0o777).toBe(0o700);
+  });
+
+  it('refuses when a file was edited after the run', async () => {
+    await applyChanges();
+    await fs.writeFile(path.join(rootDir, 'update.txt'), 'Edited by a human');
+
+    const summary = await restoreSnapshot(snapshotDir);
+
+    expect(summary.refused).toBe(true);
+    expect(summary.modifiedSinceRun).toEqual(['update.txt']);
+    expect(await fs.readFile(path.join(rootDir, 'update.txt'), 'utf8')).toBe('Edited by a human');
+    expect(await fs.readFile(path.join(rootDir, 'create.txt'), 'utf8')).toBe('Created');
+  });
+
+  it('restores edited files when forced', async () => {
+    await applyChanges();
+    await fs.writeFile(path.join(rootDir, 'update.txt'), 'Edited by a human');
+
+    const summary = await restoreSnapshot(snapshotDir, { force: true });
+
+    expect(summary.refused).toBe(false);
+    expect(summary.modifiedSinceRun).toEqual(['update.txt']);
+    expect(await fs.readFile(path.join(rootDir, 'update.txt'), 'utf8')).toBe('Original');
+  });
+
+  it('does not undo the same run twice', async () => {
+    await applyChanges();
+    await restoreSnapshot(snapshotDir);
+
+    await expect(restoreSnapshot(snapshotDir)).rejects.toThrow(SnapshotError);
+  });
+});
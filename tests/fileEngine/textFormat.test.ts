@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { conformToExisting, detectTextFormat } from '../../src/fileEngine/textFormat.js';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+
+const BOM = '\uFEFF';
+
+describe('textFormat module', () => {
+  describe('detectTextFormat', () => {
+    it.each([
+      ['a\nb\n', 'lf'],
+      ['a\r\nb\r\n', 'crlf'],
+      ['a\r\nb\n', 'mixed'],
+      ['single line', 'none'],
+    ])('detects %j as %s', (content, eol) => {
+      expect(detectTextFormat(content).eol).toBe(eol);
+    });
+
+    it('detects a UTF-8 BOM', () => {
+      expect(detectTextFormat(`${BOM}text`).bom).toBe(true);
+    });
+  });
+
+  describe('conformToExisting', () => {
+    it('leaves new files as proposed', () => {
+      expect(conformToExisting(null, 'a\r\n')).toEqual({ content: 'a\r\n', normalizations: [] });
+    });
+
+    it('converts LF content to the CRLF of the existing file', () => {
+      const result = conformToExisting('old\r\n', 'new\nlines\n');
+
+      expect(result.content).toBe('new\r\nlines\r\n');
+      expect(result.normalizations).toEqual(['kept CRLF line endings']);
+    });
+
+    it('converts CRLF content to the LF of the existing file', () => {
+      expect(conformToExisting('old\n', 'new\r\n').content).toBe('new\n');
+    });
+
+    it('keeps or drops the BOM to match the existing file', () => {
+      expect(conformToExisting(`${BOM}old\n`, 'new\n').content).toBe(`${BOM}new\n`);
+      expect(conformToExisting('old\n', `${BOM}new\n`).content).toBe('new\n');
+    });
+
+    it('leaves files with mixed line endings alone', () => {
+      expect(conformToExisting('a\r\nb\n', 'c\n')).toEqual({ content: 'c\n', normalizations: [] });
+    });
+  });
+
+  describe('applyAgentResult', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-format-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('preserves CRLF and BOM and reports it in the message', async () => {
+      await fs.writeFile(path.join(tempDir, 'win.txt'), `${BOM}one\r\ntwo\r\n`);
+
+      const summary = await applyAgentResult(
+        { files: [{ path: 'win.txt', action: 'update', content: 'one\nTWO\n' }] },
+        { rootDir: tempDir, dryRun: false }
+      );
+
+      expect(await fs.readFile(path.join(tempDir, 'win.txt'), 'utf8')).toBe(`${BOM}one\r\nTWO\r\n`);
+      expect(summary.operations[0].message).toContain('kept the UTF-8 BOM; kept CRLF line endings');
+      expect(summary.operations[0].linesAdded).toBe(1);
+    });
+  });
+});
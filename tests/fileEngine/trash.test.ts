@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { emptyTrash, forgetTrashEntries, readTrashManifest, restoreFromTrash } from '../../src/fileEngine/trash.js';
+import { restoreSnapshot } from '../../src/fileEngine/snapshots.js';
+
+describe('applyAgentResult - trash', () => {
+  let tempDir: string;
+  let rootDir: string;
+  let trashDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-trash-'));
+    rootDir = path.join(tempDir, 'project');
+    trashDir = path.join(tempDir, 'trash');
+    await fs.mkdir(path.join(rootDir, 'src/old'), { recursive: true });
+    await fs.writeFile(path.join(rootDir, 'src/old/a.ts'), 'a\n');
+    await fs.writeFile(path.join(rootDir, 'src/b.ts'), 'b\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const deleteBoth = {
+    files: [
+      { path: 'src/old/a.ts', action: 'delete' as const },
+      { path: 'src/b.ts', action: 'delete' as const },
+    ],
+  };
+
+  it('moves deleted files to the trash, keeping their relative path', async () => {
+    const summary = await applyAgentResult(deleteBoth, { rootDir, trashDir });
+
+    expect(summary.operations.map((op) => op.message)).toEqual([
+      'File moved to the trash.',
+      'File moved to the trash.',
+    ]);
+    expect(await fs.readFile(path.join(trashDir, 'files/src/old/a.ts'), 'utf8')).toBe('a\n');
+    expect((await readTrashManifest(trashDir))?.entries.map((entry) => entry.path)).toEqual([
+      'src/old/a.ts',
+      'src/b.ts',
+    ]);
+  });
+
+  it('removes the directories the deletes leave empty', async () => {
+    await applyAgentResult({ files: [deleteBoth.files[0]] }, { rootDir });
+
+    await expect(fs.access(path.join(rootDir, 'src/old'))).rejects.toThrow();
+    expect(await fs.readdir(path.join(rootDir, 'src'))).toEqual(['b.ts']);
+
+    await applyAgentResult({ files: [deleteBoth.files[1]] }, { rootDir });
+
+    expect(await fs.readdir(rootDir)).toEqual([]);
+  });
+
+  it('removes the directories a move leaves empty', async () => {
+    await applyAgentResult(
+      { files: [{ path: 'lib/a.ts', action: 'move', from: 'src/old/a.ts', to: 'lib/a.ts' }] },
+      { rootDir }
+    );
+
+    expect(await fs.readdir(path.join(rootDir, 'src'))).toEqual(['b.ts']);
+    expect(await fs.readFile(path.join(rootDir, 'lib/a.ts'), 'utf8')).toBe('a\n');
+  });
+
+  it('restores trashed files without overwriting files that came back', async () => {
+    await applyAgentResult(deleteBoth, { rootDir, trashDir });
+    await fs.mkdir(path.join(rootDir, 'src'));
+    await fs.writeFile(path.join(rootDir, 'src/b.ts'), 'new b\n');
+
+    const summary = await restoreFromTrash(trashDir);
+
+    expect(summary.files).toEqual([
+      { path: 'src/old/a.ts', status: 'restored' },
+      { path: 'src/b.ts', status: 'exists' },
+    ]);
+    expect(await fs.readFile(path.join(rootDir, 'src/old/a.ts'), 'utf8')).toBe('a\n');
+    expect(await fs.readFile(path.join(rootDir, 'src/b.ts'), 'utf8')).toBe('new b\n');
+    expect((await readTrashManifest(trashDir))?.entries.map((entry) => entry.path)).toEqual(['src/b.ts']);
+
+    const forced = await restoreFromTrash(trashDir, { paths: ['src/b.ts', 'src/c.ts'], force: true });
+
+    expect(forced.files.map((file) => file.status)).toEqual(['restored', 'not-in-trash']);
+    expect(await fs.readFile(path.join(rootDir, 'src/b.ts'), 'utf8')).toBe('b\n');
+    await expect(fs.access(path.join(trashDir, 'files'))).rejects.toThrow();
+  });
+
+  it('restores files with the mode they were deleted with', async () => {
+    await fs.chmod(path.join(rootDir, 'src/old/a.ts'), 0o600);
+    await fs.chmod(path.join(rootDir, 'src/b.ts'), 0o755);
+    await applyAgentResult(deleteBoth, { rootDir, trashDir });
+
+    expect((await readTrashManifest(trashDir))?.entries.map((entry) => entry.mode)).toEqual([0o600, 0o755]);
+
+    await restoreFromTrash(trashDir);
+
+    expect((await fs.stat(path.join(rootDir, 'src/b.ts'))).mode & 0o777).toBe(0o755);
+    expect((await fs.stat(path.join(rootDir, 'src/old/a.ts'))).mode & 0o777).toBe(0o600);
+  });
+
+  it('forgets files that were put back by undoing the run', async () => {
+    const snapshotDir = path.join(tempDir, 'snapshots');
+    await applyAgentResult(deleteBoth, { rootDir, trashDir, snapshotDir });
+    const undo = await restoreSnapshot(snapshotDir);
+
+    expect(await forgetTrashEntries(trashDir, undo.files.map((file) => file.path))).toEqual([
+      'src/old/a.ts',
+      'src/b.ts',
+    ]);
+    expect((await readTrashManifest(trashDir))?.entries).toEqual([]);
+    await expect(fs.access(path.join(trashDir, 'files'))).rejects.toThrow();
+    expect((await restoreFromTrash(trashDir)).files).toEqual([]);
+    expect(await forgetTrashEntries(path.join(tempDir, 'no-trash'), ['src/b.ts'])).toEqual([]);
+  });
+
+  it('empties the trash', async () => {
+    await applyAgentResult(deleteBoth, { rootDir, trashDir });
+
+    expect(await emptyTrash(trashDir)).toEqual(['src/old/a.ts', 'src/b.ts']);
+    await expect(fs.access(trashDir)).rejects.toThrow();
+  });
+
+  it('leaves nothing in the trash when a transaction rolls back', async () => {
+    await fs.writeFile(path.join(rootDir, 'blocker'), 'file\n');
+
+    const summary = await applyAgentResult(
+      { files: [...deleteBoth.files, { path: 'blocker/c.txt', action: 'create', content: 'c\n' }] },
+      { rootDir, trashDir, transactional: true }
+    );
+
+    expect(summary.rollback?.restored).toHaveLength(3);
+    expect(await fs.readFile(path.join(rootDir, 'src/old/a.ts'), 'utf8')).toBe('a\n');
+    expect(await readTrashManifest(trashDir)).toBeNull();
+    await expect(fs.access(path.join(trashDir, 'files'))).rejects.toThrow();
+  });
+
+  it('does not touch the trash in dry-run', async () => {
+    await applyAgentResult(deleteBoth, { rootDir, trashDir, dryRun: true });
+
+    expect(await fs.readFile(path.join(rootDir, 'src/b.ts'), 'utf8')).toBe('b\n');
+    await expect(fs.access(trashDir)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { applyAgentResult } from '../../src/fileEngine/apply.js';
+import { validateContent } from '../../src/fileEngine/validators.js';
+
+describe('validateContent', () => {
+  it('reports JSON that does not parse, except in files that allow comments', async () => {
+    expect(await validateContent('data.json', '{"a": 1,}')).toMatch(/^invalid JSON: /);
+    expect(await validateContent('data.json', '{"a": 1}')).toBeUndefined();
+    expect(await validateContent('tsconfig.json', '{ // comment\n"a": 1, }')).toBeUndefined();
+  });
+
+  it('reports YAML that does not parse', async () => {
+    expect(await validateContent('config.yml', 'a: [1, 2\nb: 3\n')).toMatch(/^invalid YAML: /);
+    expect(await validateContent('config.yaml', 'a: 1\n---\nb: 2\n')).toBeUndefined();
+  });
+
+  it('reports TypeScript and JavaScript syntax errors with their line', async () => {
+    expect(await validateContent('src/a.ts', 'const a = 1;\nconst b: number = ;\n')).toMatch(
+      /^syntax error on line 2: /
+    );
+    expect(await validateContent('src/a.tsx', 'export const A = () => <div>{1}</div>;\n')).toBeUndefined();
+    // Type errors are not syntax errors.
+    expect(await validateContent('src/a.ts', 'const a: string = 1;\n')).toBeUndefined();
+  });
+
+  it("uses the project's typescript package before the one installed with the engine", async () => {
+    const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-typescript-'));
+    const packageDir = path.join(rootDir, 'node_modules/typescript');
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(path.join(packageDir, 'package.json'), '{"name": "typescript", "main": "index.js"}');
+    await fs.writeFile(
+      path.join(packageDir, 'index.js'),
+      [
+        'exports.DiagnosticCategory = { Error: 1 };',
+        'exports.JsxEmit = { Preserve: 1 };',
+        'exports.flattenDiagnosticMessageText = (text) => text;',
+        "exports.transpileModule = () => ({ diagnostics: [{ category: 1, messageText: 'checked by the project' }] });",
+      ].join('\n')
+    );
+
+    try {
+      expect(await validateContent('src/a.ts', 'const a = 1;\n', undefined, rootDir)).toBe(
+        'syntax error: checked by the project'
+      );
+    } finally {
+      await fs.rm(rootDir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports HTML elements that are not closed or not nested properly', async () => {
+    expect(await validateContent('index.html', '<div><span></div>')).toBe(
+      'invalid HTML: <span> on line 1 is closed by </div> on line 1'
+    );
+    expect(await validateContent('index.html', '<main>\n<section>\n</main>')).toBe(
+      'invalid HTML: <section> on line 2 is closed by </main> on line 3'
+    );
+    expect(
+      await validateContent(
+        'index.html',
+        '<!doctype html><html><body><p>a<p>b<ul><li>x<li>y</ul><br><img src="a.png"/>' +
+          '<script>if (a < b && c > d) {}</script></body></html>'
+      )
+    ).toBeUndefined();
+  });
+
+  it('ignores extensions without a validator and uses custom ones', async () => {
+    expect(await validateContent('notes.md', '<div>')).toBeUndefined();
+    const validators = { '.txt': (content: string) => (content.includes('TODO') ? 'has TODO' : undefined) };
+    expect(await validateContent('a.txt', 'TODO', validators)).toBe('has TODO');
+  });
+});
+
+describe('applyAgentResult - content validation', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluid-agent-validation-'));
+    await fs.writeFile(path.join(tempDir, 'config.json'), '{"a": 1}\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const files = [
+    { path: 'config.json', action: 'update' as const, content: '{"a": 2,}\n' },
+    { path: 'ok.json', action: 'create' as const, content: '{"b": 1}\n' },
+  ];
+
+  it('blocks invalid content with status invalid-content', async () => {
+    const summary = await applyAgentResult({ files }, { rootDir: tempDir, validation: 'block' });
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['invalid-content', 'created']);
+    expect(summary.operations[0].message).toMatch(/^Not written: invalid JSON: /);
+    expect(summary.counts['invalid-content']).toBe(1);
+    expect(await fs.readFile(path.join(tempDir, 'config.json'), 'utf8')).toBe('{"a": 1}\n');
+  });
+
+  it('writes invalid content with a warning in warn mode', async () => {
+    const summary = await applyAgentResult({ files }, { rootDir: tempDir, validation: 'warn' });
+
+    expect(summary.operations[0].status).toBe('updated');
+    expect(summary.operations[0].warnings).toEqual(['invalid-content']);
+    expect(summary.operations[0].message).toContain('Content is not valid (invalid JSON: ');
+    expect(summary.operations[1].warnings).toBeUndefined();
+    expect(await fs.readFile(path.join(tempDir, 'config.json'), 'utf8')).toBe('{"a": 2,}\n');
+  });
+
+  it('writes content a validator could not check with a not-validated warning', async () => {
+    const validators = { '.json': () => ({ notChecked: 'no JSON parser' }) };
+    const summary = await applyAgentResult({ files }, { rootDir: tempDir, validation: 'block', validators });
+
+    expect(summary.operations.map((op) => op.status)).toEqual(['updated', 'created']);
+    expect(summary.operations[0].warnings).toEqual(['not-validated']);
+    expect(summary.operations[0].message).toBe('File written successfully. Content not checked (no JSON parser).');
+  });
+
+  it('does not validate by default', async () => {
+    const summary = await applyAgentResult({ files }, { rootDir: tempDir, dryRun: true });
+
+    expect(summary.operations[0].status).toBe('updated');
+    expect(summary.operations[0].warnings).toBeUndefined();
+  });
+
+  it('aborts a transaction before writing when content is invalid', async () => {
+    const summary = await applyAgentResult(
+      { files: [...files].reverse() },
+      { rootDir: tempDir, validation: 'block', transactional: true }
+    );
+
+    expect(summary.rollback?.restored).toEqual([]);
+    await expect(fs.access(path.join(tempDir, 'ok.json'))).rejects.toThrow();
+  });
+});